@@ -0,0 +1,144 @@
+// scripts/replay-traffic.ts
+// Re-send a window of captured traffic logs to a target app and report how the status codes
+// differ from the original run, e.g. to check that a new rule now blocks a customer's attack.
+//
+//   npm run replay -- --base-url http://localhost:3001 --minutes 15                # last 15 min from the configured store
+//   TRAFFIC_STORE=redis npm run replay -- --base-url http://localhost:3001 --since 2025-01-01T10:00:00Z --until 2025-01-01T10:05:00Z
+//   npm run replay -- --input export.json --endpoint /api/auth/login --bots --speed 4
+//   npm run replay -- --input src/data/traffic.json --as-fast-as-possible --concurrency 10 --json report.json
+//
+// --input takes a JSON array of logs (e.g. src/data/traffic.json) or an /api/traffic response ({ logs: [...] }).
+// Without it, logs are read from the configured TrafficStore (TRAFFIC_STORE=redis reads Redis).
+// Cookies and authorization headers are not replayed. Requests that had a body are skipped (bodies are logged redacted, if at all).
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { TrafficLog } from '@/types';
+import { getTrafficLogPage } from '@/utils/traffic-logger';
+import { isValidStatusFilter, matchesLogFilters, MAX_LOGS, TrafficLogFilters } from '@/utils/traffic-store';
+import { MAX_REPLAY_REQUESTS, replayTraffic } from '@/utils/traffic-sim';
+
+const parseTime = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) throw new Error(`${flag} must be a date/time, e.g. 2025-01-01T10:00:00Z`);
+  return time;
+};
+
+const parseMinutes = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const minutes = Number(value);
+  if (!(minutes > 0)) throw new Error('--minutes must be a positive number');
+  return minutes;
+};
+
+const readLogFile = (filePath: string): TrafficLog[] => {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const logs = Array.isArray(parsed) ? parsed : parsed?.logs;
+  if (!Array.isArray(logs)) throw new Error(`${filePath} has no log array`);
+  return logs;
+};
+
+const readStoreLogs = async (filters: TrafficLogFilters): Promise<TrafficLog[]> => {
+  const logs: TrafficLog[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getTrafficLogPage({ ...filters, limit: MAX_LOGS, cursor });
+    logs.push(...page.logs);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && logs.length <= MAX_REPLAY_REQUESTS);
+  return logs;
+};
+
+const printCounts = (original: Record<string, number>, replayed: Record<string, number>) => {
+  const statuses = Array.from(new Set([...Object.keys(original), ...Object.keys(replayed)])).sort();
+  console.log(`  ${'status'.padEnd(8)} ${'original'.padStart(8)} ${'replay'.padStart(8)}`);
+  for (const status of statuses) {
+    console.log(`  ${status.padEnd(8)} ${String(original[status] ?? 0).padStart(8)} ${String(replayed[status] ?? 0).padStart(8)}`);
+  }
+};
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'base-url': { type: 'string' },
+      input: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      minutes: { type: 'string' },
+      endpoint: { type: 'string' },
+      method: { type: 'string' },
+      ip: { type: 'string' },
+      status: { type: 'string' },
+      bots: { type: 'boolean' },
+      humans: { type: 'boolean' },
+      speed: { type: 'string', default: '1' },
+      'as-fast-as-possible': { type: 'boolean' },
+      concurrency: { type: 'string', default: '5' },
+      json: { type: 'string' },
+    },
+  });
+
+  const baseUrl = values['base-url'];
+  if (!baseUrl) throw new Error('--base-url is required (the app to replay against)');
+  if (values.status && !isValidStatusFilter(values.status)) throw new Error('--status must be a code (401) or class (4xx)');
+  if (values.bots && values.humans) throw new Error('Use at most one of --bots and --humans');
+
+  const minutes = parseMinutes(values.minutes);
+  const filters: TrafficLogFilters = {
+    since: minutes !== undefined ? Date.now() - minutes * 60 * 1000 : parseTime(values.since, '--since'),
+    until: parseTime(values.until, '--until'),
+    endpoint: values.endpoint,
+    method: values.method?.toUpperCase(),
+    ip: values.ip,
+    status: values.status,
+    isBot: values.bots ? true : values.humans ? false : undefined,
+  };
+
+  const logs = values.input
+    ? readLogFile(values.input).filter(log => matchesLogFilters(log, filters))
+    : await readStoreLogs(filters);
+  if (logs.length === 0) {
+    console.log('No logs match; nothing to replay.');
+    return;
+  }
+  if (logs.length > MAX_REPLAY_REQUESTS) {
+    throw new Error(`${logs.length} logs match; narrow the window to at most ${MAX_REPLAY_REQUESTS}`);
+  }
+
+  // Ctrl+C stops sending and still reports what was replayed
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const timing = values['as-fast-as-possible'] ? 'none' : 'original';
+  console.log(`Replaying ${logs.length} request(s) against ${baseUrl} (${timing === 'none' ? 'as fast as possible' : `${values.speed}x original timing`})...`);
+  const report = await replayTraffic({
+    logs,
+    baseUrl,
+    timing,
+    speed: Number(values.speed),
+    concurrency: Number(values.concurrency),
+    signal: controller.signal,
+  });
+
+  console.log(`Replayed ${report.sent} request(s)${report.stopped ? ' (stopped early)' : ''}; ${report.unchanged} got the original status.`);
+  if (report.notReplayable > 0) {
+    console.log(`Skipped ${report.notReplayable} request(s) with a body, which cannot be replayed.`);
+  }
+  printCounts(report.original, report.replayed);
+  if (report.changes.length > 0) {
+    console.log('Changed:');
+    for (const change of report.changes) {
+      console.log(`  ${change.endpoint} ${change.from} -> ${change.to}: ${change.count}`);
+    }
+  }
+
+  if (values.json) {
+    fs.writeFileSync(values.json, JSON.stringify(report, null, 2) + '\n', 'utf8');
+    console.log(`Report written to ${values.json}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Replay failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+// scripts/seed-users.ts
+// Hash any plaintext passwords left in src/data/users.json (rewriting the file),
+// then copy every seed user into the configured TrafficStore.
+//
+//   npm run seed:users                        # file store (development default)
+//   TRAFFIC_STORE=redis npm run seed:users    # Redis, using KV_REST_API_URL / KV_REST_API_TOKEN
+//
+// Users already in the store are overwritten, so this also resets their passwords to the seed ones.
+import fs from 'fs';
+import { readSeedUsers, saveUser, toStoredUser, USER_SEED_FILE_PATH } from '@/utils/user-store';
+import { resolveTrafficStoreKind } from '@/utils/traffic-store';
+
+async function main() {
+  const seeds = readSeedUsers();
+  if (seeds.length === 0) {
+    console.error(`No users found in ${USER_SEED_FILE_PATH}`);
+    process.exit(1);
+  }
+
+  const users = await Promise.all(seeds.map(toStoredUser));
+
+  const converted = seeds.filter(seed => seed.password !== undefined).length;
+  if (converted > 0) {
+    // Keep only the hash in the seed file
+    fs.writeFileSync(USER_SEED_FILE_PATH, JSON.stringify(users, null, 2) + '\n', 'utf8');
+    console.log(`Hashed ${converted} plaintext password(s) in ${USER_SEED_FILE_PATH}`);
+  }
+
+  for (const user of users) {
+    await saveUser(user);
+  }
+  console.log(`Seeded ${users.length} user(s) into the ${resolveTrafficStoreKind()} store`);
+}
+
+main().catch(error => {
+  console.error('Seeding users failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+// scripts/simulate-traffic.ts
+// Send one of the built-in traffic scenarios to a running instance of the app and print
+// a summary of the responses. Same seed and settings, same requests.
+//
+//   npm run sim -- --list
+//   npm run sim -- credential-stuffing
+//   npm run sim -- catalog-scraping --requests 500 --rate 50 --concurrency 10 --seed 7
+//   npm run sim -- human-baseline --ips 198.51.100.7,198.51.100.8 --header-set x-kasada-classification=human
+//   npm run sim -- checkout-flood --base-url http://localhost:3001 --email user@example.com --password 'K4sad@!'
+//
+// --header-set can be repeated (each request picks one set), as can --user-agent.
+// Run the app with CAPTCHA_PROVIDER=mock so scenarios that log in can pass the adaptive challenge offline.
+import { parseArgs } from 'util';
+import { isSimScenarioName, runSimulation, SIM_SCENARIOS, SimOptions } from '@/utils/traffic-sim';
+
+const parseNumber = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) throw new Error(`${flag} must be a number`);
+  return parsed;
+};
+
+// `name=value,name=value` -> { name: value, ... }
+const parseHeaderSet = (value: string): Record<string, string> =>
+  Object.fromEntries(value.split(',').map(pair => {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) throw new Error(`Invalid header "${pair}" (expected name=value)`);
+    return [pair.slice(0, separator).trim().toLowerCase(), pair.slice(separator + 1).trim()];
+  }));
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      list: { type: 'boolean' },
+      'base-url': { type: 'string', default: process.env.SIM_BASE_URL || 'http://localhost:3000' },
+      requests: { type: 'string' },
+      rate: { type: 'string' },
+      concurrency: { type: 'string' },
+      seed: { type: 'string' },
+      ips: { type: 'string' },
+      'user-agent': { type: 'string', multiple: true },
+      'header-set': { type: 'string', multiple: true },
+      email: { type: 'string' },
+      password: { type: 'string' },
+    },
+  });
+
+  if (values.list || positionals.length === 0) {
+    console.log('Scenarios:');
+    for (const scenario of Object.values(SIM_SCENARIOS)) {
+      const { requests, ratePerSecond, concurrency } = scenario.defaults;
+      console.log(`  ${scenario.name.padEnd(20)} ${scenario.description} (${requests} requests, ${ratePerSecond}/s, ${concurrency} clients)`);
+    }
+    return;
+  }
+
+  const [scenario] = positionals;
+  if (!isSimScenarioName(scenario)) {
+    throw new Error(`Unknown scenario "${scenario}" (try --list)`);
+  }
+
+  const options: SimOptions = {
+    scenario,
+    baseUrl: values['base-url'],
+    requests: parseNumber(values.requests, '--requests'),
+    ratePerSecond: parseNumber(values.rate, '--rate'),
+    concurrency: parseNumber(values.concurrency, '--concurrency'),
+    seed: parseNumber(values.seed, '--seed'),
+    ipPool: values.ips?.split(',').map(ip => ip.trim()).filter(Boolean),
+    userAgents: values['user-agent'],
+    headerSets: values['header-set']?.map(parseHeaderSet),
+    account: values.email && values.password ? { email: values.email, password: values.password } : undefined,
+  };
+
+  // Ctrl+C stops sending and still prints what was sent
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  console.log(`Running ${scenario} against ${options.baseUrl}...`);
+  const report = await runSimulation({ ...options, signal: controller.signal });
+
+  console.log(`Sent ${report.sent} request(s)${report.stopped ? ' (stopped early)' : ''}, average latency ${report.averageLatencyMs} ms`);
+  for (const [status, count] of Object.entries(report.byStatus).sort()) {
+    console.log(`  ${status.padEnd(6)} ${count}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Simulation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
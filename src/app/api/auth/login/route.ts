@@ -1,30 +1,26 @@
 // src/app/api/auth/login/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-import { User } from '@/types';
-import { logTraffic as logTrafficToRedis } from '@/utils/traffic-logger';
-import { logTraffic as logTrafficToFile } from '@/utils/file-traffic-logger';
-
-// Use Redis in production, file-based in development
-const isProduction = process.env.NODE_ENV === 'production';
-// Determine which logging function to use based on environment
-const logTraffic = isProduction ? logTrafficToRedis : logTrafficToFile;
+import { logTraffic, readJsonBody, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { enforceRateLimit } from '@/utils/rate-limit';
+import { checkLoginCaptcha, completeLogin } from '@/utils/login';
+import { assessLoginRisk } from '@/utils/login-risk';
+import { getCaptchaClientConfig } from '@/utils/captcha';
 
 // Define the expected request body structure
 interface LoginBody {
   email: string;
   password: string;
+  captchaToken?: string; // Only needed once the route has asked for a challenge
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withTrafficTiming(async function POST(req: NextRequest) {
   const endpointPath = '/api/auth/login'; // Define endpoint path for logging
 
   try {
-    const body: LoginBody = await req.json();
+    const body = await readJsonBody<LoginBody>(req);
 
-    // --- Validate request body ---
-    if (!body.email || !body.password) {
+    // --- Validate request body (before rate limiting, which keys on the email) ---
+    if (typeof body !== 'object' || body === null || typeof body.email !== 'string' || typeof body.password !== 'string' || !body.email || !body.password) {
       // Log the attempt before returning error
       console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Missing fields)`);
       await logTraffic(req, endpointPath, 400);
@@ -34,59 +30,30 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // --- Load users data (Consider moving this to a database in a real app) ---
-    const usersFilePath = path.join(process.cwd(), 'src/data/users.json');
-    let users: User[] = [];
+    // --- Rate limits (per IP and per account) ---
+    const rateLimited = await enforceRateLimit(req, endpointPath, body.email);
+    if (rateLimited) return rateLimited;
 
-    if (fs.existsSync(usersFilePath)) {
-      const usersData = fs.readFileSync(usersFilePath, 'utf8');
-      try {
-          users = JSON.parse(usersData);
-      } catch (e) {
-          console.error("Error parsing users.json:", e);
-          // Log the attempt before returning error
-          console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - User data parse failed)`);
-          await logTraffic(req, endpointPath, 500); // Log internal server error
-          return NextResponse.json({ message: 'Error reading user data' }, { status: 500 });
-      }
-    } else {
-      // Handle case where users file doesn't exist (optional)
-      console.warn("users.json not found. Proceeding without user data.");
-       // Log the attempt before returning error
-       console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 401 (Unauthorized - No user data)`);
-      await logTraffic(req, endpointPath, 401); // Log as unauthorized since no users can match
-      return NextResponse.json(
-        { message: 'Invalid email or password' },
-        { status: 401 }
-      );
+    // --- Adaptive challenge: only risky logins have to solve a CAPTCHA ---
+    const risk = await assessLoginRisk(req);
+    if (risk.decision === 'allow') {
+      return await completeLogin(req, endpointPath, body.email, body.password, { risk });
     }
 
-    // --- Find user ---
-    const user = users.find(u => u.email === body.email);
-
-    // --- Check credentials ---
-    // IMPORTANT: In a real application, NEVER store plain text passwords. Use bcrypt.compare().
-    if (!user || (user as any).password !== body.password) {
-      // Log the failed login attempt
-      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 401 (Unauthorized - Invalid credentials)`);
-      await logTraffic(req, endpointPath, 401);
+    if (typeof body.captchaToken !== 'string' || !body.captchaToken) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 403 (Forbidden - Challenge required, risk ${risk.score})`);
+      await logTraffic(req, endpointPath, 403, { account: body.email, reason: 'challenge-required', risk });
       return NextResponse.json(
-        { message: 'Invalid email or password' },
-        { status: 401 }
+        { message: 'Please complete the CAPTCHA to continue.', captchaRequired: true, captcha: getCaptchaClientConfig() },
+        { status: 403 }
       );
     }
 
-    // --- Successful Login ---
-    // Remove password before sending user data in response
-    const { password, ...userWithoutPassword } = user as any;
+    const { captcha, rejection } = await checkLoginCaptcha(req, endpointPath, body.email, body.captchaToken, { risk });
+    if (rejection) return rejection;
 
-    // Log the successful login attempt
-    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Login successful)`);
-    await logTraffic(req, endpointPath, 200);
-    return NextResponse.json({
-      message: 'Login successful',
-      user: userWithoutPassword
-    });
+    // --- Lockout, credentials and session ---
+    return await completeLogin(req, endpointPath, body.email, body.password, { risk, captcha });
 
   } catch (error) {
     // --- Handle unexpected errors ---
@@ -100,4 +67,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
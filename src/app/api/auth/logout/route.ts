@@ -0,0 +1,24 @@
+// src/app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { destroySession } from '@/utils/session';
+
+export const POST = withTrafficTiming(async function POST(req: NextRequest) {
+  const endpointPath = '/api/auth/logout'; // Define endpoint path for logging
+
+  try {
+    const response = NextResponse.json({ message: 'Logged out' });
+    const session = await destroySession(req, response);
+
+    await logTraffic(req, endpointPath, 200, { account: session?.user.email });
+    return response;
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
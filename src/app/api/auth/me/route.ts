@@ -0,0 +1,24 @@
+// src/app/api/auth/me/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/utils/session';
+
+// Not logged through logTraffic: every page's Header calls this, which would drown out real traffic
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return NextResponse.json({ message: 'Not authenticated' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ user: session.user, expiresAt: session.expiresAt });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+// src/app/api/auth/register/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, readJsonBody, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { enforceRateLimit } from '@/utils/rate-limit';
+import { createSession } from '@/utils/session';
+import { mergeGuestCart } from '@/utils/cart-store';
+import { createUser, isValidEmail, passwordProblem } from '@/utils/user-store';
+import { sendEmail } from '@/utils/outbox';
+
+// Define the expected request body structure
+interface RegisterBody {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export const POST = withTrafficTiming(async function POST(req: NextRequest) {
+  const endpointPath = '/api/auth/register'; // Define endpoint path for logging
+
+  try {
+    const body = await readJsonBody<RegisterBody>(req);
+
+    // --- Rate limits (per IP) ---
+    const rateLimited = await enforceRateLimit(req, endpointPath);
+    if (rateLimited) return rateLimited;
+
+    // --- Validate request body ---
+    if (typeof body.name !== 'string' || typeof body.email !== 'string' || typeof body.password !== 'string' ||
+        !body.name.trim() || !body.email || !body.password) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Missing fields)`);
+      await logTraffic(req, endpointPath, 400);
+      return NextResponse.json(
+        { message: 'Name, email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidEmail(body.email)) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Invalid email)`);
+      await logTraffic(req, endpointPath, 400, { account: body.email, reason: 'invalid-email' });
+      return NextResponse.json({ message: 'Please enter a valid email address' }, { status: 400 });
+    }
+
+    const problem = passwordProblem(body.password);
+    if (problem) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Weak password)`);
+      await logTraffic(req, endpointPath, 400, { account: body.email, reason: 'weak-password' });
+      return NextResponse.json({ message: problem }, { status: 400 });
+    }
+
+    // --- Create the account ---
+    const user = await createUser(body);
+    if (!user) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 409 (Conflict - Email already registered)`);
+      await logTraffic(req, endpointPath, 409, { account: body.email, reason: 'email-taken' });
+      return NextResponse.json(
+        { message: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    await sendEmail({
+      to: user.email,
+      subject: 'Welcome to Demo Shop',
+      body: `Hi ${user.name},\n\nYour account has been created. Happy shopping!`,
+    });
+
+    // --- Registered: log in straight away ---
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 201 (Created - Account registered)`);
+    await logTraffic(req, endpointPath, 201, { account: user.email });
+    const response = NextResponse.json(
+      { message: 'Account created', user },
+      { status: 201 }
+    );
+    await createSession(req, response, user);
+    await mergeGuestCart(req, response, user.email);
+    return response;
+
+  } catch (error) {
+    console.error('Registration error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
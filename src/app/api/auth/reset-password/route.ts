@@ -0,0 +1,112 @@
+// src/app/api/auth/reset-password/route.ts
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, readJsonBody, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getTrafficStore } from '@/utils/traffic-store';
+import { enforceRateLimit } from '@/utils/rate-limit';
+import { clearLockout } from '@/utils/account-lockout';
+import { revokeSessions } from '@/utils/session';
+import { getUserByEmail, isValidEmail, passwordProblem, updatePassword } from '@/utils/user-store';
+import { sendEmail } from '@/utils/outbox';
+
+// Two steps on one route: `{ email }` requests a reset link, `{ token, password }` completes it
+interface ResetPasswordBody {
+  email?: string;
+  token?: string;
+  password?: string;
+}
+
+const RESET_NAMESPACE = 'password-reset';
+const RESET_TTL_SECONDS = 30 * 60; // Reset links work for 30 minutes
+
+// Links point here rather than at the request's Host header, which the client controls
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// Tokens are stored hashed, so a leaked store does not leak working links
+const tokenKey = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const POST = withTrafficTiming(async function POST(req: NextRequest) {
+  const endpointPath = '/api/auth/reset-password'; // Define endpoint path for logging
+
+  try {
+    const body = await readJsonBody<ResetPasswordBody>(req);
+
+    // --- Rate limits (per IP, and per account when requesting a link) ---
+    const rateLimited = await enforceRateLimit(req, endpointPath, body.token ? undefined : body.email);
+    if (rateLimited) return rateLimited;
+
+    const store = getTrafficStore();
+
+    // --- Step 2: set the new password ---
+    if (body.token !== undefined) {
+      if (typeof body.token !== 'string' || typeof body.password !== 'string' || !body.password) {
+        console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Missing fields)`);
+        await logTraffic(req, endpointPath, 400);
+        return NextResponse.json({ message: 'Token and new password are required' }, { status: 400 });
+      }
+
+      const reset = await store.getRecord<{ email: string }>(RESET_NAMESPACE, tokenKey(body.token));
+      if (!reset) {
+        console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Invalid reset token)`);
+        await logTraffic(req, endpointPath, 400, { reason: 'invalid-reset-token' });
+        return NextResponse.json({ message: 'This reset link is invalid or has expired' }, { status: 400 });
+      }
+
+      const problem = passwordProblem(body.password);
+      if (problem) {
+        console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Weak password)`);
+        await logTraffic(req, endpointPath, 400, { account: reset.email, reason: 'weak-password' });
+        return NextResponse.json({ message: problem }, { status: 400 });
+      }
+
+      // Claim the token before changing anything, so only one request can use a link
+      if (!(await store.deleteRecord(RESET_NAMESPACE, tokenKey(body.token)))) {
+        console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Reset token already used)`);
+        await logTraffic(req, endpointPath, 400, { account: reset.email, reason: 'invalid-reset-token' });
+        return NextResponse.json({ message: 'This reset link is invalid or has expired' }, { status: 400 });
+      }
+
+      await updatePassword(reset.email, body.password);
+      await revokeSessions(reset.email);
+      await clearLockout(reset.email);
+
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Password reset)`);
+      await logTraffic(req, endpointPath, 200, { account: reset.email });
+      return NextResponse.json({ message: 'Your password has been reset. You can now log in.' });
+    }
+
+    // --- Step 1: email a reset link ---
+    if (typeof body.email !== 'string' || !isValidEmail(body.email)) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Invalid email)`);
+      await logTraffic(req, endpointPath, 400);
+      return NextResponse.json({ message: 'Please enter a valid email address' }, { status: 400 });
+    }
+
+    const user = await getUserByEmail(body.email);
+    if (user) {
+      const token = crypto.randomBytes(32).toString('base64url');
+      await store.putRecord(RESET_NAMESPACE, tokenKey(token), { email: user.email }, RESET_TTL_SECONDS);
+
+      const link = new URL(`/reset-password?token=${token}`, APP_URL).toString();
+      await sendEmail({
+        to: user.email,
+        subject: 'Reset your Demo Shop password',
+        body: `Hi ${user.name},\n\nUse this link within 30 minutes to choose a new password:\n${link}\n\nIf you did not ask for this, you can ignore this email.`,
+      });
+    }
+
+    // Same answer either way, so the form cannot be used to discover accounts
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Reset requested)`);
+    await logTraffic(req, endpointPath, 200, { account: body.email, reason: user ? undefined : 'unknown-account' });
+    return NextResponse.json({ message: 'If an account exists for that email, a reset link is on its way.' });
+
+  } catch (error) {
+    console.error('Password reset error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
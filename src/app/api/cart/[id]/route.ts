@@ -0,0 +1,80 @@
+// src/app/api/cart/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, readJsonBody, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getProduct } from '@/utils/product-store';
+import { getCartOwner, MAX_LINE_QUANTITY, setCartQuantity, setGuestCartCookie } from '@/utils/cart-store';
+
+// Logged under the route pattern so each product does not get its own dashboard chart
+const endpointPath = '/api/cart/[id]';
+
+interface UpdateQuantityBody {
+  quantity: number;
+}
+
+// Set a product's quantity (0 removes it)
+export const PATCH = withTrafficTiming(async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const owner = await getCartOwner(req);
+    const body = await readJsonBody<UpdateQuantityBody>(req);
+    const quantity = body?.quantity;
+
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > MAX_LINE_QUANTITY) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Invalid quantity)`);
+      await logTraffic(req, endpointPath, 400, { account: owner.account, reason: 'invalid-quantity' });
+      return NextResponse.json(
+        { message: `Quantity must be a whole number from 0 to ${MAX_LINE_QUANTITY}` },
+        { status: 400 }
+      );
+    }
+
+    const productId = Number(id);
+    const product = Number.isInteger(productId) ? await getProduct(productId) : null;
+    if (!product) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 404 (Not Found - Product ${id})`);
+      await logTraffic(req, endpointPath, 404, { account: owner.account, reason: 'unknown-product' });
+      return NextResponse.json({ message: 'Product not found' }, { status: 404 });
+    }
+
+    const cart = await setCartQuantity(owner.key, product.id, quantity);
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Product ${product.id} x ${quantity})`);
+    await logTraffic(req, endpointPath, 200, { account: owner.account });
+    const response = NextResponse.json({ cart });
+    setGuestCartCookie(response, owner);
+    return response;
+
+  } catch (error) {
+    console.error('Cart update error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Remove a product from the cart
+export const DELETE = withTrafficTiming(async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const owner = await getCartOwner(req);
+    const productId = Number(id);
+
+    if (!Number.isInteger(productId)) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 404 (Not Found - Product ${id})`);
+      await logTraffic(req, endpointPath, 404, { account: owner.account, reason: 'unknown-product' });
+      return NextResponse.json({ message: 'Product not found' }, { status: 404 });
+    }
+
+    const cart = await setCartQuantity(owner.key, productId, 0);
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Removed product ${productId})`);
+    await logTraffic(req, endpointPath, 200, { account: owner.account });
+    return NextResponse.json({ cart });
+
+  } catch (error) {
+    console.error('Cart removal error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
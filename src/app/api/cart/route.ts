@@ -0,0 +1,89 @@
+// src/app/api/cart/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, readJsonBody, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getProduct } from '@/utils/product-store';
+import { addToCart, clearCart, getCart, getCartOwner, MAX_LINE_QUANTITY, setGuestCartCookie } from '@/utils/cart-store';
+
+const endpointPath = '/api/cart';
+
+interface AddToCartBody {
+  productId: number;
+  quantity?: number;
+}
+
+export const GET = withTrafficTiming(async function GET(req: NextRequest) {
+  try {
+    const owner = await getCartOwner(req);
+    const cart = await getCart(owner.key);
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - ${cart.itemCount} items)`);
+    await logTraffic(req, endpointPath, 200, { account: owner.account });
+    const response = NextResponse.json({ cart });
+    response.headers.set('Cache-Control', 'no-store');
+    setGuestCartCookie(response, owner);
+    return response;
+
+  } catch (error) {
+    console.error('Cart lookup error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Add to cart: quantities for a product already in the cart are added together
+export const POST = withTrafficTiming(async function POST(req: NextRequest) {
+  try {
+    const owner = await getCartOwner(req);
+    const body = await readJsonBody<AddToCartBody>(req);
+    const quantity = body?.quantity ?? 1;
+
+    if (!Number.isInteger(quantity) || quantity <= 0 || quantity > MAX_LINE_QUANTITY) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Invalid quantity)`);
+      await logTraffic(req, endpointPath, 400, { account: owner.account, reason: 'invalid-quantity' });
+      return NextResponse.json(
+        { message: `Quantity must be a whole number from 1 to ${MAX_LINE_QUANTITY}` },
+        { status: 400 }
+      );
+    }
+
+    const product = Number.isInteger(body?.productId) ? await getProduct(body.productId) : null;
+    if (!product) {
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Unknown product)`);
+      await logTraffic(req, endpointPath, 400, { account: owner.account, reason: 'unknown-product' });
+      return NextResponse.json({ message: 'Product not found' }, { status: 400 });
+    }
+
+    const cart = await addToCart(owner.key, product.id, quantity);
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Added product ${product.id})`);
+    await logTraffic(req, endpointPath, 200, { account: owner.account });
+    const response = NextResponse.json({ cart });
+    setGuestCartCookie(response, owner);
+    return response;
+
+  } catch (error) {
+    console.error('Add to cart error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Empty the cart
+export const DELETE = withTrafficTiming(async function DELETE(req: NextRequest) {
+  try {
+    const owner = await getCartOwner(req);
+    await clearCart(owner.key);
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Cart cleared)`);
+    await logTraffic(req, endpointPath, 200, { account: owner.account });
+    return NextResponse.json({ cart: await getCart(owner.key) });
+
+  } catch (error) {
+    console.error('Clear cart error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -1,12 +1,14 @@
 // src/app/api/checkout/route.ts
+import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { CartItem, ShippingAddress } from '@/types';
-import { logTraffic as logTrafficToRedis } from '@/utils/traffic-logger';
-import { logTraffic as logTrafficToFile } from '@/utils/file-traffic-logger';
-
-// Use Redis in production, file-based in development
-const isProduction = process.env.NODE_ENV === 'production';
-const logTraffic = isProduction ? logTrafficToRedis : logTrafficToFile;
+import { CartItem, Order, ShippingAddress } from '@/types';
+import { getClientIp, logTraffic, readJsonBody, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { enforceRateLimit } from '@/utils/rate-limit';
+import { getSession } from '@/utils/session';
+import { findPriceTampering, getProduct, releaseStock, reserveStock, StockLine } from '@/utils/product-store';
+import { saveOrder, toCustomerOrder } from '@/utils/order-store';
+import { clearAccountCart } from '@/utils/cart-store';
+import { toShippingAddress, validateShippingAddress } from '@/utils/shipping-address';
 
 interface CheckoutBody {
   items: CartItem[];
@@ -14,10 +16,28 @@ interface CheckoutBody {
   paymentMethod: string;
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withTrafficTiming(async function POST(req: NextRequest) {
   try {
-    const body: CheckoutBody = await req.json();
-    
+    // Per-IP rate limit first, so unauthenticated floods are throttled too
+    const ipLimited = await enforceRateLimit(req, '/api/checkout', undefined, 'ip');
+    if (ipLimited) return ipLimited;
+
+    // Checkout requires a logged-in session
+    const session = await getSession(req);
+    if (!session) {
+      await logTraffic(req, '/api/checkout', 401, { reason: 'no-session' });
+      return NextResponse.json(
+        { message: 'Please log in to check out' },
+        { status: 401 }
+      );
+    }
+
+    // Per-account rate limit
+    const accountLimited = await enforceRateLimit(req, '/api/checkout', session.user.email, 'account');
+    if (accountLimited) return accountLimited;
+
+    const body = await readJsonBody<CheckoutBody>(req);
+
     // Validate request body
     if (!body.items || !Array.isArray(body.items) || body.items.length === 0) {
       await logTraffic(req, '/api/checkout', 400);
@@ -27,10 +47,11 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    if (!body.shippingAddress) {
-      await logTraffic(req, '/api/checkout', 400);
+    const addressErrors = validateShippingAddress(body.shippingAddress ?? {});
+    if (addressErrors.length > 0) {
+      await logTraffic(req, '/api/checkout', 400, { account: session.user.email, reason: 'invalid-address' });
       return NextResponse.json(
-        { message: 'Shipping address is required' }, 
+        { message: addressErrors[0].message, errors: addressErrors },
         { status: 400 }
       );
     }
@@ -43,30 +64,107 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // In a real application, you would:
-    // 1. Process the payment
-    // 2. Create an order in the database
-    // 3. Send confirmation email
-    // 4. Update inventory
+    // Combine cart lines for the same product, so each is priced, reserved and capped once
+    const quantities = new Map<number, number>();
+    for (const item of body.items) {
+      if (typeof item !== 'object' || item === null || !Number.isInteger(item.id)) {
+        await logTraffic(req, '/api/checkout', 400, { account: session.user.email, reason: 'unknown-product' });
+        return NextResponse.json(
+          { message: 'Cart items must name a product' },
+          { status: 400 }
+        );
+      }
+      const quantity = item.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        await logTraffic(req, '/api/checkout', 400, { account: session.user.email, reason: 'invalid-quantity' });
+        return NextResponse.json(
+          { message: 'Item quantities must be positive whole numbers' },
+          { status: 400 }
+        );
+      }
+      quantities.set(item.id, (quantities.get(item.id) ?? 0) + quantity);
+    }
+
+    const lines: StockLine[] = [];
+    for (const [productId, quantity] of quantities) {
+      const product = await getProduct(productId);
+      if (!product) {
+        await logTraffic(req, '/api/checkout', 400, { account: session.user.email, reason: 'unknown-product' });
+        return NextResponse.json(
+          { message: `Product ${productId} does not exist` },
+          { status: 400 }
+        );
+      }
+      lines.push({ product, quantity });
+    }
+
+    // Items are priced from the catalog; a cart line claiming any other price was altered on the client
+    const tampering = findPriceTampering(body.items, lines);
+    if (tampering.length > 0) {
+      await logTraffic(req, '/api/checkout', 400, { account: session.user.email, reason: 'price-tampered', tampering });
+      return NextResponse.json(
+        { message: 'Your cart prices are out of date. Please refresh your cart and try again.' },
+        { status: 400 }
+      );
+    }
+
+    // Take the items out of stock atomically; nothing is reserved if any line cannot be filled
+    const reservation = await reserveStock(lines, session.user.email);
+    if (!reservation.reserved) {
+      const { product, reason, available } = reservation;
+      await logTraffic(req, '/api/checkout', 409, { account: session.user.email, reason });
+      const message = reason === 'sold-out'
+        ? (available > 0 ? `Only ${available} ${product.name} left in stock` : `${product.name} is sold out`)
+        : `${product.name} is limited to ${product.limitedDrop?.perAccountLimit} per customer`;
+      return NextResponse.json(
+        { message, productId: product.id, reason, available },
+        { status: 409 }
+      );
+    }
+
+    // From here on the stock is taken; give it back if the order is not saved
+    let order: Order;
+    try {
+      // In a real application, you would also:
+      // 1. Process the payment (releasing the stock if it fails)
+      // 2. Send confirmation email
     
-    // For this demo, we'll just simulate a delay and return success
-    await new Promise(resolve => setTimeout(resolve, 1000));
+      // For this demo, we'll just simulate a delay and return success
+      await new Promise(resolve => setTimeout(resolve, 1000));
     
-    // Create a fake order ID
-    const orderId = `ORDER-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+      order = {
+        id: `ORDER-${crypto.randomUUID()}`,
+        account: session.user.email,
+        items: lines.map(({ product, quantity }) => ({ ...product, quantity })),
+        shippingAddress: toShippingAddress(body.shippingAddress),
+        paymentMethod: body.paymentMethod,
+        total: Math.round(lines.reduce((sum, { product, quantity }) => sum + product.price * quantity, 0) * 100) / 100,
+        status: 'processing',
+        createdAt: new Date().toISOString(),
+      };
     
-    await logTraffic(req, '/api/checkout', 200);
+      const logId = await logTraffic(req, '/api/checkout', 200, { account: session.user.email });
+      // Keep the request behind the order so admins can trace it back to its traffic
+      order.origin = {
+        ip: getClientIp(req),
+        userAgent: req.headers.get('user-agent') || 'unknown',
+        isBot: req.headers.get('x-kasada-classification') === 'bad-bot',
+        classification: req.headers.get('x-kasada-classification') ?? undefined,
+        logId,
+      };
+      await saveOrder(order);
+    } catch (error) {
+      await releaseStock(reservation.hold).catch(releaseErr => console.error('Failed to release reserved stock:', releaseErr));
+      throw error;
+    }
+
+    // The order stands even if the cart cannot be emptied; the customer can clear it themselves
+    await clearAccountCart(session.user.email)
+      .catch(cartErr => console.error('Failed to clear cart after checkout:', cartErr));
+
     return NextResponse.json({
       message: 'Order placed successfully',
-      order: {
-        id: orderId,
-        items: body.items,
-        shippingAddress: body.shippingAddress,
-        paymentMethod: body.paymentMethod,
-        total: body.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
-        status: 'processing',
-        createdAt: new Date().toISOString()
-      }
+      order: toCustomerOrder(order)
     });
   } catch (error) {
     console.error('Checkout error:', error);
@@ -76,4 +174,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
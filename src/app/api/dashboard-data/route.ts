@@ -1,8 +1,15 @@
 // src/app/api/dashboard-data/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { getDashboardTrafficCounts } from '@/utils/traffic-logger'; // Import the new function
+import { requireRole } from '@/utils/session';
+
+// Upper bound on points per series, to keep responses (and counter reads) bounded
+const MAX_INTERVALS = 1500;
 
 export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
   try {
     const url = new URL(req.url);
 
@@ -16,6 +23,10 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ message: 'Invalid windowMinutes or intervalSeconds parameter' }, { status: 400 });
     }
 
+    if ((windowMinutes * 60) / intervalSeconds > MAX_INTERVALS) {
+        return NextResponse.json({ message: `Too many intervals; use an intervalSeconds of at least ${Math.ceil((windowMinutes * 60) / MAX_INTERVALS)}` }, { status: 400 });
+    }
+
     // Calculate time window in seconds
     const nowSeconds = Math.floor(Date.now() / 1000);
     const startTimeSeconds = nowSeconds - (windowMinutes * 60);
@@ -23,14 +34,16 @@ export async function GET(req: NextRequest) {
     const alignedStartTimeSeconds = Math.floor(startTimeSeconds / intervalSeconds) * intervalSeconds;
 
     // --- Fetch aggregated data ---
-    const dashboardData = await getDashboardTrafficCounts({
+    // Reads from the coarsest counter rollup (1s / 1m / 1h) that fits the window and interval
+    const dashboardCounts = await getDashboardTrafficCounts({
       // Fetch slightly more than requested window to ensure the current interval is populated
       startTimeSeconds: alignedStartTimeSeconds,
       endTimeSeconds: nowSeconds,
       intervalSeconds: intervalSeconds,
     });
 
-    const response = NextResponse.json(dashboardData);
+    // { resolutionSeconds, intervalSeconds, series: { [endpoint]: [{ timestamp, count, segments }, ...] } }
+    const response = NextResponse.json(dashboardCounts);
 
     // --- Cache Control ---
     // Prevent caching or set a very short cache duration
@@ -0,0 +1,40 @@
+// src/app/api/inventory/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getInventory, restockAll } from '@/utils/product-store';
+import { requireRole } from '@/utils/session';
+
+// Stock levels for the dashboard (admin only)
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const response = NextResponse.json({ inventory: await getInventory() });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving inventory:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Restock every product to its catalog level, starting a new limited drop
+export async function POST(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ inventory: await restockAll() });
+
+  } catch (error) {
+    console.error('Error restocking inventory:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
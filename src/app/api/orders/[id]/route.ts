@@ -0,0 +1,42 @@
+// src/app/api/orders/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getSession } from '@/utils/session';
+import { getOrder, toCustomerOrder } from '@/utils/order-store';
+import { normalizeEmail } from '@/utils/user-store';
+
+export const GET = withTrafficTiming(async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Logged under the route pattern so each order does not get its own dashboard chart
+  const endpointPath = '/api/orders/[id]';
+
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      await logTraffic(req, endpointPath, 401, { reason: 'no-session' });
+      return NextResponse.json({ message: 'Please log in to see your orders' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const order = await getOrder(id);
+    const isAdmin = session.user.role === 'admin';
+
+    // Other customers' orders look the same as missing ones, so ids cannot be probed
+    if (!order || (!isAdmin && normalizeEmail(order.account) !== normalizeEmail(session.user.email))) {
+      await logTraffic(req, endpointPath, 404, { account: session.user.email, reason: order ? 'not-order-owner' : 'unknown-order' });
+      return NextResponse.json({ message: 'Order not found' }, { status: 404 });
+    }
+
+    await logTraffic(req, endpointPath, 200, { account: session.user.email });
+    const response = NextResponse.json({ order: isAdmin ? order : toCustomerOrder(order) });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Order lookup error:', error);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,50 @@
+// src/app/api/orders/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getSession, requireRole } from '@/utils/session';
+import { getAllOrders, getOrdersForAccount, MAX_ORDERS_PER_PAGE, toCustomerOrder } from '@/utils/order-store';
+
+// The current user's order history, or with `?scope=all` every order plus its origin (admins only)
+export const GET = withTrafficTiming(async function GET(req: NextRequest) {
+  const endpointPath = '/api/orders'; // Define endpoint path for logging
+
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      await logTraffic(req, endpointPath, 401, { reason: 'no-session' });
+      return NextResponse.json({ message: 'Please log in to see your orders' }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+    if (isNaN(limit) || limit <= 0 || limit > MAX_ORDERS_PER_PAGE) {
+      return NextResponse.json({ message: `Invalid limit parameter (1-${MAX_ORDERS_PER_PAGE})` }, { status: 400 });
+    }
+
+    if (url.searchParams.get('scope') === 'all') {
+      const denied = await requireRole(req, 'admin');
+      if (denied) {
+        await logTraffic(req, endpointPath, denied.status, { account: session.user.email, reason: 'not-admin' });
+        return denied;
+      }
+      // Not logged, like the other admin dashboard routes it is polled alongside
+      const response = NextResponse.json({ orders: await getAllOrders(limit) });
+      response.headers.set('Cache-Control', 'no-store');
+      return response;
+    }
+
+    const orders = await getOrdersForAccount(session.user.email, limit);
+    await logTraffic(req, endpointPath, 200, { account: session.user.email });
+    const response = NextResponse.json({ orders: orders.map(toCustomerOrder) });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Order history error:', error);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
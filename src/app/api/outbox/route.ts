@@ -0,0 +1,25 @@
+// src/app/api/outbox/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getOutboxMessages, isOutboxReadable } from '@/utils/outbox';
+
+export async function GET(req: NextRequest) {
+  if (!isOutboxReadable()) {
+    return NextResponse.json({ message: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const to = url.searchParams.get('to') || undefined; // Optional recipient filter
+
+    const response = NextResponse.json({ messages: await getOutboxMessages(to) });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving outbox:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// src/app/api/products/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getProduct } from '@/utils/product-store';
+
+export const GET = withTrafficTiming(async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  // Logged under the route pattern so each product does not get its own dashboard chart
+  const endpointPath = '/api/products/[id]';
+
+  try {
+    const { id } = await params;
+    const productId = Number(id);
+    const product = Number.isInteger(productId) ? await getProduct(productId) : null;
+
+    if (!product) {
+      // Enumerating ids past the end of the catalog is a scraping tell
+      console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 404 (Not Found - Product ${id})`);
+      await logTraffic(req, endpointPath, 404, { reason: 'unknown-product' });
+      return NextResponse.json({ message: 'Product not found' }, { status: 404 });
+    }
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Product ${product.id})`);
+    await logTraffic(req, endpointPath, 200);
+    const response = NextResponse.json({ product });
+    response.headers.set('Cache-Control', 'no-store'); // Stock changes with every order
+    return response;
+
+  } catch (error) {
+    console.error('Product lookup error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
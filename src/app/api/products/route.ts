@@ -0,0 +1,28 @@
+// src/app/api/products/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logTraffic, withTrafficTiming } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { getProducts } from '@/utils/product-store';
+
+// Deliberately not rate limited, so catalog scraping shows up on the dashboard
+export const GET = withTrafficTiming(async function GET(req: NextRequest) {
+  const endpointPath = '/api/products'; // Define endpoint path for logging
+
+  try {
+    const products = await getProducts();
+
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - ${products.length} products)`);
+    await logTraffic(req, endpointPath, 200);
+    const response = NextResponse.json({ products });
+    response.headers.set('Cache-Control', 'no-store'); // Stock changes with every order
+    return response;
+
+  } catch (error) {
+    console.error('Product catalog error:', error);
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 500 (Server Error - Catch block)`);
+    logTraffic(req, endpointPath, 500).catch(logErr => console.error("Failed to log error traffic:", logErr));
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
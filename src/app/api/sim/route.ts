@@ -0,0 +1,96 @@
+// src/app/api/sim/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/utils/session';
+import {
+  getSimRuns, isSimEnabled, isSimScenarioName, resolveSimSettings, SIM_SCENARIOS, SimOptions,
+  simSettingsProblem, startSimRun, stopSimRun,
+} from '@/utils/traffic-sim';
+
+type StartSimBody = Omit<SimOptions, 'baseUrl' | 'signal' | 'onProgress' | 'account'>;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isHeaderSetList = (value: unknown): value is Record<string, string>[] =>
+  Array.isArray(value) && value.every(set =>
+    typeof set === 'object' && set !== null && Object.values(set).every(header => typeof header === 'string'));
+
+// Scenarios with their defaults, and the runs started in this process (admin only)
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  const scenarios = Object.values(SIM_SCENARIOS).map(({ name, description, defaults }) => ({ name, description, defaults }));
+  const response = NextResponse.json({ enabled: isSimEnabled(), scenarios, runs: getSimRuns() });
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+}
+
+// Start a scenario against this app; the run continues in the background
+export async function POST(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+  if (!isSimEnabled()) {
+    return NextResponse.json({ message: 'The traffic simulator is disabled (set SIM_ENABLED=true)' }, { status: 403 });
+  }
+
+  try {
+    const body: StartSimBody = await req.json();
+
+    if (!isSimScenarioName(body?.scenario)) {
+      return NextResponse.json(
+        { message: `scenario must be one of: ${Object.keys(SIM_SCENARIOS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if ((body.ipPool !== undefined && !isStringList(body.ipPool))
+      || (body.userAgents !== undefined && !isStringList(body.userAgents))
+      || (body.headerSets !== undefined && !isHeaderSetList(body.headerSets))) {
+      return NextResponse.json(
+        { message: 'ipPool and userAgents must be string lists, headerSets a list of header objects' },
+        { status: 400 }
+      );
+    }
+    if (body.seed !== undefined && !Number.isInteger(body.seed)) {
+      return NextResponse.json({ message: 'seed must be a whole number' }, { status: 400 });
+    }
+
+    const options: SimOptions = {
+      scenario: body.scenario,
+      baseUrl: req.nextUrl.origin,
+      requests: body.requests,
+      ratePerSecond: body.ratePerSecond,
+      concurrency: body.concurrency,
+      ipPool: body.ipPool,
+      userAgents: body.userAgents,
+      headerSets: body.headerSets,
+      seed: body.seed,
+    };
+    const settings = resolveSimSettings(options);
+    const problem = simSettingsProblem(settings);
+    if (problem) {
+      return NextResponse.json({ message: problem }, { status: 400 });
+    }
+
+    return NextResponse.json({ run: startSimRun(options, settings) }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error starting simulation:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Stop a run: DELETE /api/sim?id=<run id>
+export async function DELETE(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  const id = req.nextUrl.searchParams.get('id') ?? '';
+  if (!stopSimRun(id)) {
+    return NextResponse.json({ message: 'No running simulation with that id' }, { status: 404 });
+  }
+  return NextResponse.json({ message: 'Stopping' });
+}
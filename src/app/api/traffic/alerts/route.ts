@@ -0,0 +1,34 @@
+// src/app/api/traffic/alerts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrafficAlerts, scanForCredentialStuffing } from '@/utils/credential-stuffing';
+import { MAX_ALERTS } from '@/utils/traffic-store';
+import { requireRole } from '@/utils/session';
+
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const url = new URL(req.url);
+    const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_ALERTS) {
+      return NextResponse.json({ message: `Invalid limit parameter (1-${MAX_ALERTS})` }, { status: 400 });
+    }
+
+    // Pick up patterns that finished since the last login-triggered scan
+    await scanForCredentialStuffing();
+    const alerts = await getTrafficAlerts(limit);
+
+    const response = NextResponse.json({ alerts });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving traffic alerts:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
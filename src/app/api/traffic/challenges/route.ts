@@ -0,0 +1,33 @@
+// src/app/api/traffic/challenges/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getChallengeStats } from '@/utils/traffic-analytics';
+import { loginRiskThreshold } from '@/utils/login-risk';
+import { requireRole } from '@/utils/session';
+
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const url = new URL(req.url);
+    // Window in minutes (default 30, the log retention)
+    const timeWindowMinutes = parseInt(url.searchParams.get('timeWindow') || '30', 10);
+
+    if (isNaN(timeWindowMinutes) || timeWindowMinutes <= 0) {
+      return NextResponse.json({ message: 'Invalid timeWindow parameter' }, { status: 400 });
+    }
+
+    const stats = await getChallengeStats({ sinceMs: Date.now() - timeWindowMinutes * 60 * 1000 });
+
+    const response = NextResponse.json({ ...stats, threshold: loginRiskThreshold() });
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving challenge stats:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
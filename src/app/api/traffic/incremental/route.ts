@@ -2,8 +2,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTrafficLogs } from '@/utils/traffic-logger'; // Import the updated function
 import { TrafficLog } from '@/types';
+import { requireRole } from '@/utils/session';
 
 export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
   try {
     const url = new URL(req.url);
 
@@ -0,0 +1,39 @@
+// src/app/api/traffic/latency/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatencyStats } from '@/utils/traffic-analytics';
+import { requireRole } from '@/utils/session';
+
+const MIN_BUCKET_SECONDS = 10;
+const MAX_BUCKET_SECONDS = 3600;
+
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const url = new URL(req.url);
+    // Window in minutes (default 30, the log retention) and percentile bucket size (default 60s)
+    const timeWindowMinutes = parseInt(url.searchParams.get('timeWindow') || '30', 10);
+    const bucketSeconds = parseInt(url.searchParams.get('bucketSeconds') || '60', 10);
+
+    if (isNaN(timeWindowMinutes) || timeWindowMinutes <= 0) {
+      return NextResponse.json({ message: 'Invalid timeWindow parameter' }, { status: 400 });
+    }
+    if (isNaN(bucketSeconds) || bucketSeconds < MIN_BUCKET_SECONDS || bucketSeconds > MAX_BUCKET_SECONDS) {
+      return NextResponse.json({ message: `Invalid bucketSeconds parameter (${MIN_BUCKET_SECONDS}-${MAX_BUCKET_SECONDS})` }, { status: 400 });
+    }
+
+    const stats = await getLatencyStats({ sinceMs: Date.now() - timeWindowMinutes * 60 * 1000, bucketSeconds });
+
+    const response = NextResponse.json(stats);
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving latency stats:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,37 @@
-// src/app/api/traffic/route.ts - Fixed timeWindow type error
+// src/app/api/traffic/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-import { TrafficLog } from '@/types';
-import { getTrafficLogs } from '@/utils/traffic-logger'; // Import the updated function
+import { getTrafficLogPage } from '@/utils/traffic-logger'; // Backed by the configured TrafficStore
+import { decodeLogCursor, isValidStatusFilter, MAX_LOGS } from '@/utils/traffic-store';
+import { requireRole } from '@/utils/session';
 
 export async function GET(req: NextRequest) {
+  // Logs carry shoppers' IPs and headers, so only admins may read them
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
   try {
     // Get query parameters
     const url = new URL(req.url);
     const endpoint = url.searchParams.get('endpoint');
     const timeWindowMinutesStr = url.searchParams.get('timeWindow');
+    const limitStr = url.searchParams.get('limit');
     const method = url.searchParams.get('method');
+    const ip = url.searchParams.get('ip');
+    const cursor = url.searchParams.get('cursor');
+    const status = url.searchParams.get('status');       // "401" or "4xx"
+    const userAgent = url.searchParams.get('userAgent'); // Substring match
+    const fromStr = url.searchParams.get('from');        // Timestamp in ms (inclusive)
+    const toStr = url.searchParams.get('to');            // Timestamp in ms (inclusive)
     const isBot = url.searchParams.get('isBot') === 'true' ? true :
                  url.searchParams.get('isBot') === 'false' ? false : undefined;
 
-    let timeWindowMinutes: number | undefined = undefined;
     let sinceTimestampMs: number | undefined = undefined;
+    let untilTimestampMs: number | undefined = undefined;
+    let limit: number | undefined = undefined;
 
     // Parse and calculate 'since' timestamp if timeWindow is provided
     if (timeWindowMinutesStr) {
-        timeWindowMinutes = parseInt(timeWindowMinutesStr, 10);
+        const timeWindowMinutes = parseInt(timeWindowMinutesStr, 10);
         if (isNaN(timeWindowMinutes) || timeWindowMinutes <= 0) {
             return NextResponse.json({ message: 'Invalid timeWindow parameter' }, { status: 400 });
         }
@@ -28,66 +39,51 @@ export async function GET(req: NextRequest) {
         sinceTimestampMs = Date.now() - (timeWindowMinutes * 60 * 1000);
     }
 
-    // Check environment
-    const isProduction = process.env.NODE_ENV === 'production';
-
-    if (isProduction) {
-      // Fetch logs from Redis using the optimized function
-      const logs = await getTrafficLogs({
-        endpoint: endpoint ?? undefined,
-        since: sinceTimestampMs, // Use calculated 'since' timestamp
-        method: method ?? undefined,
-        isBot: isBot,
-        // Add limit if needed, e.g., getTrafficLogs({ ..., limit: 1000 })
-      });
-      const response = NextResponse.json(logs);
-      // Optional: Set cache headers if desired for this endpoint
-      // response.headers.set('Cache-Control', 'max-age=10'); // Example: Cache for 10 seconds
-      return response;
-
-    } else {
-      // --- Development Environment: File-based storage ---
-      const logFilePath = path.join(process.cwd(), 'src/data/traffic.json');
-
-      if (!fs.existsSync(logFilePath)) {
-        return NextResponse.json([]);
-      }
-
-      const logsData = fs.readFileSync(logFilePath, 'utf8');
-      let logs: TrafficLog[] = [];
-       try {
-           logs = JSON.parse(logsData);
-       } catch (e) {
-           console.error("Error parsing traffic.json:", e);
-           return NextResponse.json({ message: "Error reading development logs" }, { status: 500 });
-       }
-
-
-      // Apply filters (keep existing dev logic)
-      if (endpoint) {
-        logs = logs.filter(log => log.endpoint === endpoint);
-      }
+    // Explicit time range (takes precedence over timeWindow)
+    if (fromStr) {
+        const from = parseInt(fromStr, 10);
+        if (isNaN(from)) {
+            return NextResponse.json({ message: 'Invalid from parameter' }, { status: 400 });
+        }
+        sinceTimestampMs = from - 1; // 'since' is exclusive
+    }
+    if (toStr) {
+        untilTimestampMs = parseInt(toStr, 10);
+        if (isNaN(untilTimestampMs)) {
+            return NextResponse.json({ message: 'Invalid to parameter' }, { status: 400 });
+        }
+    }
 
-      // Use the original timeWindowMinutes for filtering in dev mode
-      if (timeWindowMinutes) {
-        const cutoffTime = new Date();
-        cutoffTime.setMinutes(cutoffTime.getMinutes() - timeWindowMinutes);
-        logs = logs.filter(log => new Date(log.timestamp) >= cutoffTime);
-      }
+    if (status && !isValidStatusFilter(status)) {
+        return NextResponse.json({ message: 'Invalid status parameter (e.g. 401 or 4xx)' }, { status: 400 });
+    }
 
-      if (method) {
-        logs = logs.filter(log => log.method === method);
-      }
+    if (limitStr) {
+        limit = parseInt(limitStr, 10);
+        if (isNaN(limit) || limit <= 0 || limit > MAX_LOGS) {
+            return NextResponse.json({ message: `Invalid limit parameter (1-${MAX_LOGS})` }, { status: 400 });
+        }
+    }
 
-      if (isBot !== undefined) {
-        logs = logs.filter(log => log.isBot === isBot);
-      }
+    if (cursor && !decodeLogCursor(cursor)) {
+        return NextResponse.json({ message: 'Invalid cursor parameter' }, { status: 400 });
+    }
 
-      // Sort logs newest first for consistency
-      logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    // { logs: TrafficLog[] (newest first), nextCursor: string | null }
+    const page = await getTrafficLogPage({
+      endpoint: endpoint ?? undefined,
+      since: sinceTimestampMs,
+      method: method ?? undefined,
+      isBot: isBot,
+      ip: ip ?? undefined,
+      status: status ?? undefined,
+      userAgent: userAgent ?? undefined,
+      until: untilTimestampMs,
+      limit: limit,
+      cursor: cursor ?? undefined,
+    });
 
-      return NextResponse.json(logs);
-    }
+    return NextResponse.json(page);
   } catch (error) {
     console.error('Error retrieving traffic logs:', error);
     return NextResponse.json(
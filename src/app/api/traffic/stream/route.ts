@@ -0,0 +1,149 @@
+// src/app/api/traffic/stream/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrafficLogPage, counterSegmentOf } from '@/utils/traffic-logger';
+import { onTrafficLogged } from '@/utils/traffic-events';
+import { decodeLogCursor, encodeLogCursor, TrafficLogPage } from '@/utils/traffic-store';
+import { TrafficLog } from '@/types';
+import { requireRole } from '@/utils/session';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;        // Catch writes from other instances within a second
+const HEARTBEAT_INTERVAL_MS = 15000;  // Keep proxies from closing an idle stream
+const MAX_STREAM_DURATION_MS = 5 * 60 * 1000; // Client reconnects with Last-Event-ID afterwards
+const RECONNECT_DELAY_MS = 1000;
+const MAX_LOGS_PER_PAGE = 500;
+
+interface CounterDelta {
+  endpoint: string;
+  segment: string;   // e.g. 'bot:4xx'
+  timestamp: number; // Unix seconds of the request
+  count: number;
+}
+
+/**
+ * Server-Sent Events feed of new traffic.
+ * - `log` events carry a TrafficLog; their id is the store's (timestamp, log id) cursor and acts as the resume point
+ * - `counts` events carry the counter increments for the logs just sent
+ * Resume with the `Last-Event-ID` header (sent automatically by EventSource), or start from `?since=<ms>`.
+ */
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const lastEventId = req.headers.get('last-event-id');
+  const sinceParam = url.searchParams.get('since');
+
+  // Logs after `cursor` (once something has been sent or the client resumes), newer than `since`
+  let cursor: string | undefined;
+  let since = Date.now();
+  if (lastEventId) {
+    if (!decodeLogCursor(lastEventId)) {
+      return NextResponse.json({ message: 'Invalid Last-Event-ID' }, { status: 400 });
+    }
+    cursor = lastEventId;
+    since = 0;
+  } else if (sinceParam) {
+    since = parseInt(sinceParam, 10);
+    if (isNaN(since)) {
+      return NextResponse.json({ message: 'Invalid since parameter' }, { status: 400 });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let polling = false;
+      let pollAgain = false;
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const sendLogs = (logs: TrafficLog[]) => {
+        const deltas = new Map<string, CounterDelta>();
+        for (const log of logs) {
+          const timestampMs = new Date(log.timestamp).getTime();
+          cursor = encodeLogCursor({ t: timestampMs, id: log.id ?? '' });
+          send(`id: ${cursor}\nevent: log\ndata: ${JSON.stringify(log)}\n\n`);
+
+          const segment = counterSegmentOf(log.isBot, log.statusCode ?? 0);
+          const timestamp = Math.floor(timestampMs / 1000);
+          const key = `${log.endpoint}|${segment}|${timestamp}`;
+          const delta = deltas.get(key) ?? { endpoint: log.endpoint, segment, timestamp, count: 0 };
+          delta.count += 1;
+          deltas.set(key, delta);
+        }
+        if (deltas.size > 0) {
+          send(`event: counts\ndata: ${JSON.stringify({ deltas: Array.from(deltas.values()) })}\n\n`);
+        }
+      };
+
+      // Fetch everything newer than the cursor; coalesces overlapping triggers
+      const poll = async () => {
+        if (closed) return;
+        if (polling) {
+          pollAgain = true;
+          return;
+        }
+        polling = true;
+        try {
+          // Page forward oldest first until caught up, so a burst larger than a page is not skipped
+          let page: TrafficLogPage;
+          do {
+            page = await getTrafficLogPage({ since, cursor, order: 'oldest', limit: MAX_LOGS_PER_PAGE });
+            sendLogs(page.logs);
+          } while (page.nextCursor && !closed);
+        } catch (error) {
+          console.error('Error polling traffic stream:', error);
+        } finally {
+          polling = false;
+          if (pollAgain) {
+            pollAgain = false;
+            poll();
+          }
+        }
+      };
+
+      const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      const heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      const unsubscribe = onTrafficLogged(() => { poll(); });
+      const maxDurationTimer = setTimeout(() => cleanup(), MAX_STREAM_DURATION_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(pollTimer);
+        clearInterval(heartbeatTimer);
+        clearTimeout(maxDurationTimer);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      req.signal.addEventListener('abort', () => cleanup());
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      // Replay anything missed since Last-Event-ID straight away
+      poll();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    },
+  });
+}
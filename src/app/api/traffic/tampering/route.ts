@@ -0,0 +1,38 @@
+// src/app/api/traffic/tampering/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getTamperingStats } from '@/utils/traffic-analytics';
+import { requireRole } from '@/utils/session';
+
+const MAX_RECENT = 50;
+
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const url = new URL(req.url);
+    // Window in minutes (default 30, the log retention) and recent attempts listed (default 10)
+    const timeWindowMinutes = parseInt(url.searchParams.get('timeWindow') || '30', 10);
+    const limit = parseInt(url.searchParams.get('limit') || '10', 10);
+
+    if (isNaN(timeWindowMinutes) || timeWindowMinutes <= 0) {
+      return NextResponse.json({ message: 'Invalid timeWindow parameter' }, { status: 400 });
+    }
+    if (isNaN(limit) || limit <= 0 || limit > MAX_RECENT) {
+      return NextResponse.json({ message: `Invalid limit parameter (1-${MAX_RECENT})` }, { status: 400 });
+    }
+
+    const stats = await getTamperingStats({ sinceMs: Date.now() - timeWindowMinutes * 60 * 1000, limit });
+
+    const response = NextResponse.json(stats);
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving tampering stats:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/traffic/top-talkers/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getTopTalkers } from '@/utils/traffic-analytics';
+import { requireRole } from '@/utils/session';
+
+const MAX_TALKERS = 50;
+
+export async function GET(req: NextRequest) {
+  const denied = await requireRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const url = new URL(req.url);
+    // Window in minutes (default 15) and rows per dimension (default 10)
+    const timeWindowMinutes = parseInt(url.searchParams.get('timeWindow') || '15', 10);
+    const limit = parseInt(url.searchParams.get('limit') || '10', 10);
+
+    if (isNaN(timeWindowMinutes) || timeWindowMinutes <= 0) {
+      return NextResponse.json({ message: 'Invalid timeWindow parameter' }, { status: 400 });
+    }
+    if (isNaN(limit) || limit <= 0 || limit > MAX_TALKERS) {
+      return NextResponse.json({ message: `Invalid limit parameter (1-${MAX_TALKERS})` }, { status: 400 });
+    }
+
+    const topTalkers = await getTopTalkers({
+      sinceMs: Date.now() - timeWindowMinutes * 60 * 1000,
+      limit,
+    });
+
+    const response = NextResponse.json(topTalkers);
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+
+  } catch (error) {
+    console.error('Error retrieving top talkers:', error);
+    return NextResponse.json(
+      { message: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
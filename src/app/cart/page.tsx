@@ -5,57 +5,38 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import Header from '@/components/Header';
-import { CartItem } from '@/types';
+import { Cart } from '@/types';
+import { fetchCart, removeFromCart, updateCartQuantity } from '@/utils/cart-api';
 
-export default function Cart() {
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+export default function CartPage() {
+  const [cart, setCart] = useState<Cart | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
   const router = useRouter();
+  const cartItems = cart?.items ?? [];
   
   useEffect(() => {
-    // Get cart items from localStorage
-    const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-    setCartItems(cart);
-    setLoading(false);
+    // The cart is kept on the server (per session, or per visitor before logging in)
+    fetchCart()
+      .then(setCart)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load your cart'))
+      .finally(() => setLoading(false));
   }, []);
   
-  const removeItem = (index: number) => {
-    const updatedCart = [...cartItems];
-    updatedCart.splice(index, 1);
-    
-    // Update localStorage
-    localStorage.setItem('cart', JSON.stringify(updatedCart));
-    
-    // Update state
-    setCartItems(updatedCart);
-    
-    // Trigger event
-    window.dispatchEvent(new Event('cartUpdated'));
+  const applyChange = async (changeCart: Promise<Cart>) => {
+    try {
+      setCart(await changeCart);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update your cart');
+    }
   };
   
-  const updateQuantity = (index: number, newQuantity: number) => {
-    if (newQuantity < 1) return;
-    
-    const updatedCart = [...cartItems];
-    updatedCart[index] = {
-      ...updatedCart[index],
-      quantity: newQuantity
-    };
-    
-    // Update localStorage
-    localStorage.setItem('cart', JSON.stringify(updatedCart));
-    
-    // Update state
-    setCartItems(updatedCart);
-    
-    // Trigger event
-    window.dispatchEvent(new Event('cartUpdated'));
-  };
+  const removeItem = (productId: number) => applyChange(removeFromCart(productId));
   
-  const calculateTotal = () => {
-    return cartItems.reduce((total, item) => {
-      return total + (item.price * (item.quantity || 1));
-    }, 0);
+  const updateQuantity = (productId: number, newQuantity: number) => {
+    if (newQuantity < 1) return;
+    applyChange(updateCartQuantity(productId, newQuantity));
   };
   
   const proceedToCheckout = () => {
@@ -77,6 +58,8 @@ export default function Cart() {
       <div className="cart-page">
         <h1 className="page-title">Shopping Cart</h1>
         
+        {error && <div className="error">{error}</div>}
+        
         {cartItems.length === 0 ? (
           <div className="empty-cart">
             <p>Your cart is empty</p>
@@ -87,8 +70,8 @@ export default function Cart() {
         ) : (
           <div className="cart-content">
             <div className="cart-items">
-              {cartItems.map((item, index) => (
-                <div key={index} className="cart-item">
+              {cartItems.map(item => (
+                <div key={item.id} className="cart-item">
                   <div className="item-details">
                     <h3>{item.name}</h3>
                     <p className="item-price">${item.price.toFixed(2)}</p>
@@ -96,22 +79,22 @@ export default function Cart() {
                   
                   <div className="item-quantity">
                     <button 
-                      onClick={() => updateQuantity(index, (item.quantity || 1) - 1)}
-                      disabled={(item.quantity || 1) <= 1}
+                      onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                      disabled={item.quantity <= 1}
                     >
                       -
                     </button>
-                    <span>{item.quantity || 1}</span>
-                    <button onClick={() => updateQuantity(index, (item.quantity || 1) + 1)}>
+                    <span>{item.quantity}</span>
+                    <button onClick={() => updateQuantity(item.id, item.quantity + 1)}>
                       +
                     </button>
                   </div>
                   
                   <div className="item-subtotal">
-                    ${((item.quantity || 1) * item.price).toFixed(2)}
+                    ${(item.quantity * item.price).toFixed(2)}
                   </div>
                   
-                  <button className="remove-item" onClick={() => removeItem(index)}>
+                  <button className="remove-item" onClick={() => removeItem(item.id)}>
                     Remove
                   </button>
                 </div>
@@ -121,7 +104,7 @@ export default function Cart() {
             <div className="cart-summary">
               <div className="summary-item">
                 <span>Subtotal:</span>
-                <span>${calculateTotal().toFixed(2)}</span>
+                <span>${(cart?.total ?? 0).toFixed(2)}</span>
               </div>
               <div className="summary-item">
                 <span>Shipping:</span>
@@ -129,7 +112,7 @@ export default function Cart() {
               </div>
               <div className="summary-item total">
                 <span>Total:</span>
-                <span>${calculateTotal().toFixed(2)}</span>
+                <span>${(cart?.total ?? 0).toFixed(2)}</span>
               </div>
               
               <button 
@@ -291,6 +274,14 @@ export default function Cart() {
             height: 200px;
             font-size: 18px;
           }
+          
+          .error {
+            color: red;
+            margin-bottom: 15px;
+            padding: 10px;
+            background-color: #ffebee;
+            border-radius: 4px;
+          }
         `}</style>
       </div>
     </main>
@@ -0,0 +1,12 @@
+// src/app/checkout/layout.tsx
+import { redirect } from 'next/navigation';
+import { getCurrentSession } from '@/utils/session';
+
+// Orders need an account; anonymous visitors log in first and come back here
+export default async function CheckoutLayout({ children }: { children: React.ReactNode }) {
+  const session = await getCurrentSession();
+  if (!session) {
+    redirect('/login?next=/checkout');
+  }
+  return children;
+}
@@ -2,9 +2,12 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import Header from '@/components/Header';
 import { CartItem, Order, ShippingAddress } from '@/types';
+import { announceCart, fetchCart } from '@/utils/cart-api';
+import { SHIPPING_COUNTRIES, validateShippingAddress } from '@/utils/shipping-address';
 
 interface FormData {
   fullName: string;
@@ -44,23 +47,17 @@ export default function Checkout() {
   const router = useRouter();
   
   useEffect(() => {
-    // Get cart items from localStorage
-    const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-    
-    // If cart is empty, redirect to cart page
-    if (cart.length === 0) {
-      router.push('/cart');
-      return;
-    }
-    
-    // Ensure quantity property exists
-    const updatedCart = cart.map((item: CartItem) => ({
-      ...item,
-      quantity: item.quantity || 1
-    }));
-    
-    setCartItems(updatedCart);
-    setLoading(false);
+    fetchCart()
+      .then(cart => {
+        // If cart is empty, redirect to cart page
+        if (cart.items.length === 0) {
+          router.push('/cart');
+          return;
+        }
+        setCartItems(cart.items);
+        setLoading(false);
+      })
+      .catch(() => router.push('/cart'));
   }, [router]);
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -71,6 +68,8 @@ export default function Checkout() {
     }));
   };
   
+  const countryRules = SHIPPING_COUNTRIES[formData.country];
+
   const calculateTotal = () => {
     return cartItems.reduce((total, item) => {
       return total + (item.price * item.quantity);
@@ -80,9 +79,20 @@ export default function Checkout() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Validate form
-    if (!formData.fullName || !formData.email || !formData.address) {
-      setError('Please fill out all required fields');
+    const shippingAddress: ShippingAddress = {
+      name: formData.fullName,
+      email: formData.email,
+      address: formData.address,
+      city: formData.city,
+      state: formData.state,
+      zipCode: formData.zipCode,
+      country: formData.country
+    };
+
+    // Validate form (the server checks the same rules)
+    const addressErrors = validateShippingAddress(shippingAddress);
+    if (addressErrors.length > 0) {
+      setError(addressErrors[0].message);
       return;
     }
     
@@ -97,15 +107,7 @@ export default function Checkout() {
         },
         body: JSON.stringify({
           items: cartItems,
-          shippingAddress: {
-            name: formData.fullName,
-            email: formData.email,
-            address: formData.address,
-            city: formData.city,
-            state: formData.state,
-            zipCode: formData.zipCode,
-            country: formData.country
-          },
+          shippingAddress,
           paymentMethod: formData.paymentMethod
         })
       });
@@ -120,13 +122,10 @@ export default function Checkout() {
       setOrderComplete(true);
       setOrderDetails(data.order);
       
-      // Clear cart
-      localStorage.setItem('cart', JSON.stringify([]));
-      
-      // Trigger event
-      window.dispatchEvent(new Event('cartUpdated'));
-    } catch (err: any) {
-      setError(err.message);
+      // The server emptied the cart with the order
+      announceCart({ items: [], itemCount: 0, total: 0 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
       setSubmitting(false);
     }
@@ -159,6 +158,9 @@ export default function Checkout() {
             >
               Continue Shopping
             </button>
+            <p className="order-history-link">
+              <Link href="/orders">View your order history</Link>
+            </p>
           </div>
           
           <style jsx>{`
@@ -184,6 +186,10 @@ export default function Checkout() {
               box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
             }
             
+            .order-history-link {
+              margin-top: 20px;
+            }
+            
             .back-to-shop {
               background-color: #0070f3;
               color: white;
@@ -251,7 +257,7 @@ export default function Checkout() {
                 
                 <div className="form-row">
                   <div className="form-group">
-                    <label htmlFor="city">City</label>
+                    <label htmlFor="city">City *</label>
                     <input
                       type="text"
                       id="city"
@@ -262,7 +268,7 @@ export default function Checkout() {
                   </div>
                   
                   <div className="form-group">
-                    <label htmlFor="state">State</label>
+                    <label htmlFor="state">{countryRules.regionLabel}{countryRules.regionRequired ? ' *' : ''}</label>
                     <input
                       type="text"
                       id="state"
@@ -275,7 +281,7 @@ export default function Checkout() {
                 
                 <div className="form-row">
                   <div className="form-group">
-                    <label htmlFor="zipCode">Zip Code</label>
+                    <label htmlFor="zipCode">{countryRules.postalLabel} *</label>
                     <input
                       type="text"
                       id="zipCode"
@@ -293,13 +299,9 @@ export default function Checkout() {
                       value={formData.country}
                       onChange={handleInputChange}
                     >
-                      <option value="United States">United States</option>
-                      <option value="Canada">Canada</option>
-                      <option value="United Kingdom">United Kingdom</option>
-                      <option value="Australia">Australia</option>
-                      <option value="Germany">Germany</option>
-                      <option value="France">France</option>
-                      <option value="Japan">Japan</option>
+                      {Object.keys(SHIPPING_COUNTRIES).map(country => (
+                        <option key={country} value={country}>{country}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -0,0 +1,15 @@
+// src/app/dashboard/layout.tsx
+import { redirect } from 'next/navigation';
+import { getCurrentSession } from '@/utils/session';
+
+// Checked on the server for every request, so the page never renders without an admin session
+export default async function DashboardLayout({ children }: { children: React.ReactNode }) {
+  const session = await getCurrentSession();
+  if (!session) {
+    redirect('/login?next=/dashboard');
+  }
+  if (session.user.role !== 'admin') {
+    redirect('/'); // The traffic data behind the dashboard is admin-only
+  }
+  return children;
+}
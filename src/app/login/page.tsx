@@ -11,11 +11,12 @@ export default function Login() {
   
   useEffect(() => {
     // Check if user is already logged in
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      // Redirect to home page
-      router.push('/');
-    }
+    fetch('/api/auth/me')
+      .then(response => {
+        // Redirect to home page
+        if (response.ok) router.push('/');
+      })
+      .catch(() => {});
   }, [router]);
   
   return (
@@ -0,0 +1,12 @@
+// src/app/orders/layout.tsx
+import { redirect } from 'next/navigation';
+import { getCurrentSession } from '@/utils/session';
+
+// Order history belongs to an account; anonymous visitors log in first and come back here
+export default async function OrdersLayout({ children }: { children: React.ReactNode }) {
+  const session = await getCurrentSession();
+  if (!session) {
+    redirect('/login?next=/orders');
+  }
+  return children;
+}
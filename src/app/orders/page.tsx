@@ -0,0 +1,114 @@
+// src/app/orders/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Header from '@/components/Header';
+import { Order } from '@/types';
+
+export default function Orders() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetch('/api/orders')
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || 'Could not load your orders');
+        setOrders(data.orders);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load your orders'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <main>
+      <Header />
+      <div className="orders-page">
+        <h1>Your Orders</h1>
+
+        {error && <div className="error">{error}</div>}
+
+        {loading ? (
+          <p>Loading...</p>
+        ) : orders.length === 0 ? (
+          <p>You have not placed any orders yet. <Link href="/">Start shopping</Link></p>
+        ) : (
+          orders.map(order => (
+            <article key={order.id} className="order">
+              <header>
+                <strong>{order.id}</strong>
+                <span>{new Date(order.createdAt).toLocaleString()} · {order.status}</span>
+              </header>
+              <ul>
+                {order.items.map((item, index) => (
+                  <li key={index}>
+                    <span>{item.name} × {item.quantity}</span>
+                    <span>${(item.price * item.quantity).toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="total">Total: ${order.total.toFixed(2)}</p>
+            </article>
+          ))
+        )}
+
+        <style jsx>{`
+          .orders-page {
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 40px 20px;
+          }
+
+          .order {
+            border: 1px solid #ddd;
+            border-radius: 5px;
+            padding: 15px;
+            margin-bottom: 15px;
+          }
+
+          .order header {
+            display: flex;
+            justify-content: space-between;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-bottom: 10px;
+          }
+
+          .order header span {
+            color: #666;
+            font-size: 14px;
+          }
+
+          ul {
+            list-style: none;
+            padding: 0;
+            margin: 0;
+          }
+
+          li {
+            display: flex;
+            justify-content: space-between;
+            padding: 5px 0;
+            border-bottom: 1px solid #eee;
+          }
+
+          .total {
+            text-align: right;
+            font-weight: bold;
+            margin: 10px 0 0;
+          }
+
+          .error {
+            color: red;
+            margin-bottom: 15px;
+            padding: 10px;
+            background-color: #ffebee;
+            border-radius: 4px;
+          }
+        `}</style>
+      </div>
+    </main>
+  );
+}
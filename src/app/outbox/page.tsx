@@ -0,0 +1,104 @@
+// src/app/outbox/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Header from '@/components/Header';
+import type { OutboxMessage } from '@/utils/outbox';
+
+// Make links in plain-text bodies clickable
+const renderBody = (body: string) =>
+  body.split(/(https?:\/\/\S+)/g).map((part, index) =>
+    /^https?:\/\//.test(part) ? <a key={index} href={part}>{part}</a> : part
+  );
+
+export default function Outbox() {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetch('/api/outbox')
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || 'Could not load the outbox');
+        setMessages(data.messages);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load the outbox'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <main>
+      <Header />
+      <div className="outbox-page">
+        <h1>Outbox</h1>
+        <p className="note">Emails the shop would have sent. This stands in for a real mail provider.</p>
+
+        {error && <div className="error">{error}</div>}
+
+        {loading ? (
+          <p>Loading...</p>
+        ) : messages.length === 0 ? (
+          <p>No emails sent yet.</p>
+        ) : (
+          messages.map(message => (
+            <article key={message.id} className="message">
+              <header>
+                <strong>{message.subject}</strong>
+                <span>To: {message.to} · {new Date(message.createdAt).toLocaleString()}</span>
+              </header>
+              <pre>{renderBody(message.body)}</pre>
+            </article>
+          ))
+        )}
+
+        <style jsx>{`
+          .outbox-page {
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 40px 20px;
+          }
+
+          .note {
+            color: #666;
+          }
+
+          .message {
+            border: 1px solid #ddd;
+            border-radius: 5px;
+            padding: 15px;
+            margin-bottom: 15px;
+          }
+
+          .message header {
+            display: flex;
+            justify-content: space-between;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-bottom: 10px;
+          }
+
+          .message header span {
+            color: #666;
+            font-size: 14px;
+          }
+
+          pre {
+            white-space: pre-wrap;
+            word-break: break-all;
+            font-family: inherit;
+            margin: 0;
+          }
+
+          .error {
+            color: red;
+            margin-bottom: 15px;
+            padding: 10px;
+            background-color: #ffebee;
+            border-radius: 4px;
+          }
+        `}</style>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,35 @@
+// src/app/register/page.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import RegisterForm from '@/components/RegisterForm';
+import Header from '@/components/Header';
+
+export default function Register() {
+  const router = useRouter();
+
+  useEffect(() => {
+    // Already logged in: nothing to register
+    fetch('/api/auth/me')
+      .then(response => {
+        if (response.ok) router.push('/');
+      })
+      .catch(() => {});
+  }, [router]);
+
+  return (
+    <main>
+      <Header />
+      <div className="register-page">
+        <RegisterForm />
+
+        <style jsx>{`
+          .register-page {
+            padding: 40px 20px;
+          }
+        `}</style>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+// src/app/reset-password/page.tsx
+'use client';
+
+import ResetPasswordForm from '@/components/ResetPasswordForm';
+import Header from '@/components/Header';
+
+export default function ResetPassword() {
+  return (
+    <main>
+      <Header />
+      <div className="reset-password-page">
+        <ResetPasswordForm />
+
+        <style jsx>{`
+          .reset-password-page {
+            padding: 40px 20px;
+          }
+        `}</style>
+      </div>
+    </main>
+  );
+}
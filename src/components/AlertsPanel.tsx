@@ -0,0 +1,127 @@
+// src/components/AlertsPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { TrafficAlert, TrafficAlertRule } from '@/types';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh (and trigger a detection scan) every 15 seconds
+const ALERT_LIMIT = 20;
+const RULE_LABELS: Record<TrafficAlertRule, string> = {
+  'many-accounts-per-ip': 'Many accounts from one IP',
+  'high-failure-ratio': 'High login failure ratio',
+  'many-ips-per-account': 'One account from many IPs',
+};
+
+const AlertsPanel: React.FC = () => {
+  const [alerts, setAlerts] = useState<TrafficAlert[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/traffic/alerts?limit=${ALERT_LIMIT}`);
+      if (!response.ok) {
+        throw new Error(`Alerts API error! status: ${response.status}`);
+      }
+      const data: { alerts: TrafficAlert[] } = await response.json();
+      setAlerts(data.alerts ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching alerts:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAlerts();
+    const timer = setInterval(fetchAlerts, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchAlerts]);
+
+  return (
+    <div className="alerts">
+      {error && <p className="error-message">{error}</p>}
+
+      {loading ? (
+        <p>Loading alerts...</p>
+      ) : alerts.length === 0 ? (
+        <p>No credential-stuffing patterns detected.</p>
+      ) : (
+        <ul>
+          {alerts.map(alert => (
+            <li key={alert.id} className={`alert ${alert.severity}`}>
+              <button className="alert-summary" onClick={() => setExpandedId(expandedId === alert.id ? null : alert.id)}>
+                <span className="severity">{alert.severity}</span>
+                <span className="rule">{RULE_LABELS[alert.rule] ?? alert.rule}</span>
+                <span className="summary">{alert.summary}</span>
+                <span className="time">{new Date(alert.updatedAt).toLocaleTimeString()}</span>
+              </button>
+
+              {expandedId === alert.id && (
+                <div className="evidence">
+                  <p>
+                    {alert.evidence.attempts} attempts, {alert.evidence.failures} failed,{' '}
+                    {alert.evidence.distinctAccounts} accounts, {alert.evidence.distinctIps} IPs between{' '}
+                    {new Date(alert.evidence.windowStart).toLocaleTimeString()} and{' '}
+                    {new Date(alert.evidence.windowEnd).toLocaleTimeString()}.
+                    First raised {new Date(alert.raisedAt).toLocaleString()}.
+                  </p>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Time</th>
+                        <th>Endpoint</th>
+                        <th>IP Address</th>
+                        <th>Account</th>
+                        <th>Status</th>
+                        <th>Class</th>
+                        <th>User Agent</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {alert.evidence.samples.map((sample, index) => (
+                        <tr key={sample.id ?? `${sample.timestamp}-${index}`}>
+                          <td>{new Date(sample.timestamp).toLocaleTimeString()}</td>
+                          <td>{sample.endpoint}</td>
+                          <td>{sample.ip}</td>
+                          <td>{sample.account ?? 'N/A'}</td>
+                          <td>{sample.statusCode ?? 'N/A'}</td>
+                          <td>{sample.isBot ? 'Bot' : 'Human'}</td>
+                          <td className="ua" title={sample.userAgent}>{sample.userAgent}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <style jsx>{`
+        ul { list-style: none; margin: 0; padding: 0; display: flex; flex-direction: column; gap: 8px; }
+        .alert { border: 1px solid #ddd; border-left-width: 4px; border-radius: 4px; }
+        .alert.medium { border-left-color: #f9a825; }
+        .alert.high { border-left-color: #c62828; }
+        .alert-summary { display: flex; width: 100%; align-items: center; gap: 12px; padding: 10px; background: none; border: none; cursor: pointer; text-align: left; }
+        .severity { text-transform: uppercase; font-size: 12px; font-weight: bold; width: 60px; }
+        .medium .severity { color: #f9a825; }
+        .high .severity { color: #c62828; }
+        .rule { font-weight: bold; white-space: nowrap; }
+        .summary { flex: 1; color: #555; }
+        .time { color: #888; font-size: 13px; }
+        .evidence { padding: 0 10px 10px; overflow-x: auto; }
+        .evidence p { margin: 0 0 10px; color: #555; }
+        table { width: 100%; border-collapse: collapse; font-size: 13px; }
+        th, td { padding: 6px 8px; text-align: left; border-bottom: 1px solid #eee; white-space: nowrap; }
+        th { background-color: #f5f5f5; }
+        .ua { max-width: 240px; overflow: hidden; text-overflow: ellipsis; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -1,87 +1,33 @@
 // src/components/CaptchaLoginForm.tsx
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { User } from '@/types';
-
-declare global {
-  interface Window {
-    turnstile: {
-      render: (container: string | HTMLElement, options: any) => string;
-      reset: (widgetId: string) => void;
-    };
-  }
-}
+import type { CaptchaClientConfig } from '@/utils/captcha';
+import CaptchaWidget, { captchaLabel } from './CaptchaWidget';
 
 const CaptchaLoginForm: React.FC = () => {
   const [email, setEmail] = useState<string>('');
   const [password, setPassword] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
+  const [config, setConfig] = useState<CaptchaClientConfig | null>(null);
   const [captchaToken, setCaptchaToken] = useState<string>('');
-  const [widgetId, setWidgetId] = useState<string>('');
-  const [scriptLoaded, setScriptLoaded] = useState<boolean>(false);
+  const [captchaAttempt, setCaptchaAttempt] = useState<number>(0);
   const router = useRouter();
 
   useEffect(() => {
-    // Check if script is already loaded
-    if (window.turnstile) {
-      setScriptLoaded(true);
-      return;
-    }
-
-    // Check if script tag already exists
-    const existingScript = document.querySelector('script[src*="turnstile"]');
-    if (existingScript) {
-      // Script is loading, wait for it
-      const checkTurnstile = () => {
-        if (window.turnstile) {
-          setScriptLoaded(true);
-        } else {
-          setTimeout(checkTurnstile, 100);
-        }
-      };
-      checkTurnstile();
-      return;
-    }
-
-    // Load Cloudflare Turnstile script
-    const script = document.createElement('script');
-    script.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js';
-    script.async = true;
-    script.defer = true;
-    
-    script.onload = () => {
-      setScriptLoaded(true);
-    };
-    
-    document.head.appendChild(script);
-
-    return () => {
-      // Don't remove the script on cleanup as it might be used by other components
-    };
+    // Ask the server which provider is configured
+    fetch('/api/auth/captcha-login')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error('Could not load the CAPTCHA'))))
+      .then(setConfig)
+      .catch(err => setError(err.message));
   }, []);
 
-  useEffect(() => {
-    // Render the CAPTCHA widget only when script is loaded and container exists
-    if (scriptLoaded && window.turnstile) {
-      const container = document.getElementById('captcha-container');
-      if (container && !container.hasChildNodes()) {
-        const id = window.turnstile.render('#captcha-container', {
-          sitekey: process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY || '1x00000000000000000000AA', // Default test key
-          callback: (token: string) => {
-            setCaptchaToken(token);
-          },
-          'expired-callback': () => {
-            setCaptchaToken('');
-          },
-          'error-callback': () => {
-            setCaptchaToken('');
-          }
-        });
-        setWidgetId(id);
-      }
-    }
-  }, [scriptLoaded]);
+  // Tokens are single-use, so start a new challenge after every submit
+  const resetCaptcha = () => {
+    setCaptchaAttempt(attempt => attempt + 1);
+    setCaptchaToken('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -113,24 +59,16 @@ const CaptchaLoginForm: React.FC = () => {
         throw new Error(data.message || 'Something went wrong');
       }
 
-      // Save user data to local storage
-      localStorage.setItem('user', JSON.stringify(data.user));
-      
       // Reset CAPTCHA
-      if (window.turnstile && widgetId) {
-        window.turnstile.reset(widgetId);
-      }
-      setCaptchaToken('');
+      resetCaptcha();
       
-      // Redirect to home page
-      router.push('/');
-    } catch (err: any) {
-      setError(err.message);
+      // Redirect to the page that sent us here (same-site paths only), or home
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
       // Reset CAPTCHA on error
-      if (window.turnstile && widgetId) {
-        window.turnstile.reset(widgetId);
-      }
-      setCaptchaToken('');
+      resetCaptcha();
     } finally {
       setLoading(false);
     }
@@ -169,13 +107,17 @@ const CaptchaLoginForm: React.FC = () => {
         
         <div className="form-group">
           <label>CAPTCHA Verification</label>
-          <div id="captcha-container" className="captcha-container"></div>
+          {config && <CaptchaWidget key={captchaAttempt} config={config} onToken={setCaptchaToken} />}
         </div>
         
         <button type="submit" disabled={loading || !captchaToken}>
           {loading ? 'Logging in...' : 'Login with CAPTCHA'}
         </button>
       </form>
+
+      <p className="links">
+        <Link href="/reset-password">Forgot password?</Link> · <Link href="/register">Create an account</Link>
+      </p>
       
       <div className="demo-credentials">
         <p>Demo credentials:</p>
@@ -183,7 +125,7 @@ const CaptchaLoginForm: React.FC = () => {
           <li>Email: user@example.com</li>
         </ul>
         <p className="captcha-note">
-          <strong>Note:</strong> This form is protected by Cloudflare Turnstile CAPTCHA.
+          <strong>Note:</strong> This form is protected by {config ? captchaLabel(config) : 'a'} CAPTCHA.
           You must complete the CAPTCHA verification before logging in.
         </p>
       </div>
@@ -214,13 +156,6 @@ const CaptchaLoginForm: React.FC = () => {
           border-radius: 4px;
         }
         
-        .captcha-container {
-          display: flex;
-          justify-content: center;
-          margin: 10px 0;
-          min-height: 65px;
-        }
-        
         button {
           width: 100%;
           padding: 10px;
@@ -248,6 +183,11 @@ const CaptchaLoginForm: React.FC = () => {
           border-radius: 4px;
         }
         
+        .links {
+          margin-top: 15px;
+          text-align: center;
+        }
+        
         .demo-credentials {
           margin-top: 20px;
           padding: 10px;
@@ -0,0 +1,139 @@
+// src/components/CaptchaWidget.tsx
+import { useEffect, useRef, useState } from 'react';
+import type { CaptchaProviderKind } from '@/types';
+import type { CaptchaClientConfig } from '@/utils/captcha';
+
+// Browser API shared by the Turnstile, hCaptcha and reCAPTCHA widgets
+interface CaptchaWidgetOptions {
+  sitekey: string;
+  callback: (token: string) => void;
+  'expired-callback': () => void;
+  'error-callback': () => void;
+}
+
+interface CaptchaWidgetApi {
+  render: (container: string | HTMLElement, options: CaptchaWidgetOptions) => string | number;
+  reset: (widgetId?: string | number) => void;
+}
+
+declare global {
+  interface Window {
+    turnstile?: CaptchaWidgetApi;
+    hcaptcha?: CaptchaWidgetApi;
+    grecaptcha?: CaptchaWidgetApi;
+  }
+}
+
+type WidgetGlobal = 'turnstile' | 'hcaptcha' | 'grecaptcha';
+
+// Script and global for each hosted provider; the mock provider renders a local checkbox instead
+const WIDGET_SCRIPTS: Record<Exclude<CaptchaProviderKind, 'mock'>, { src: string; global: WidgetGlobal; label: string }> = {
+  turnstile: { src: 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit', global: 'turnstile', label: 'Cloudflare Turnstile' },
+  hcaptcha: { src: 'https://js.hcaptcha.com/1/api.js?render=explicit', global: 'hcaptcha', label: 'hCaptcha' },
+  recaptcha: { src: 'https://www.google.com/recaptcha/api.js?render=explicit', global: 'grecaptcha', label: 'Google reCAPTCHA' },
+};
+
+const MOCK_TOKEN = 'mock-token'; // The server's CAPTCHA_MOCK_OUTCOME decides what it verifies as
+
+export const captchaLabel = (config: CaptchaClientConfig): string =>
+  config.provider === 'mock' ? 'a mock' : WIDGET_SCRIPTS[config.provider].label;
+
+interface CaptchaWidgetProps {
+  config: CaptchaClientConfig;
+  onToken: (token: string) => void; // '' when the token expires or the widget errors
+}
+
+// Tokens are single-use: remount (change the `key`) to start a new challenge
+const CaptchaWidget: React.FC<CaptchaWidgetProps> = ({ config, onToken }) => {
+  const [scriptLoaded, setScriptLoaded] = useState<boolean>(false);
+  const [mockChecked, setMockChecked] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  const widget = config.provider !== 'mock' ? WIDGET_SCRIPTS[config.provider] : null;
+
+  useEffect(() => {
+    if (!widget) return;
+
+    // The widget API appears on window once the script has run
+    let timer: ReturnType<typeof setTimeout>;
+    const waitForApi = () => {
+      if (window[widget.global]?.render) {
+        setScriptLoaded(true);
+      } else {
+        timer = setTimeout(waitForApi, 100);
+      }
+    };
+
+    // Load the provider script unless it is already on the page
+    if (!document.querySelector(`script[src="${widget.src}"]`)) {
+      const script = document.createElement('script');
+      script.src = widget.src;
+      script.async = true;
+      script.defer = true;
+      document.head.appendChild(script);
+    }
+    waitForApi();
+
+    return () => clearTimeout(timer);
+  }, [widget]);
+
+  useEffect(() => {
+    // Render the CAPTCHA widget only when script is loaded and container exists
+    const api = widget && window[widget.global];
+    const container = containerRef.current;
+    if (scriptLoaded && api && container && !container.hasChildNodes()) {
+      api.render(container, {
+        sitekey: config.siteKey,
+        callback: (token: string) => onTokenRef.current(token),
+        'expired-callback': () => onTokenRef.current(''),
+        'error-callback': () => onTokenRef.current(''),
+      });
+    }
+  }, [scriptLoaded, config.siteKey, widget]);
+
+  if (config.provider === 'mock') {
+    return (
+      <label className="mock-captcha">
+        <input
+          type="checkbox"
+          checked={mockChecked}
+          onChange={(e) => {
+            setMockChecked(e.target.checked);
+            onToken(e.target.checked ? MOCK_TOKEN : '');
+          }}
+        />
+        I am not a robot (mock CAPTCHA)
+
+        <style jsx>{`
+          .mock-captcha {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 15px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+          }
+        `}</style>
+      </label>
+    );
+  }
+
+  return (
+    <>
+      <div ref={containerRef} className="captcha-container"></div>
+
+      <style jsx>{`
+        .captcha-container {
+          display: flex;
+          justify-content: center;
+          margin: 10px 0;
+          min-height: 65px;
+        }
+      `}</style>
+    </>
+  );
+};
+
+export default CaptchaWidget;
@@ -0,0 +1,101 @@
+// src/components/ChallengeStatsPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ChallengeStats } from '@/utils/traffic-analytics';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh every 15 seconds
+// Logs are only retained for 30 minutes, so longer windows would show the same data
+const WINDOW_OPTIONS = [
+  { minutes: 5, label: 'Last 5 min' },
+  { minutes: 15, label: 'Last 15 min' },
+  { minutes: 30, label: 'Last 30 min' },
+];
+
+type ChallengeStatsResponse = ChallengeStats & { threshold: number };
+
+const percent = (part: number, whole: number): string =>
+  whole > 0 ? `${Math.round((part / whole) * 100)}%` : '-';
+
+const ChallengeStatsPanel: React.FC = () => {
+  const [windowMinutes, setWindowMinutes] = useState<number>(30);
+  const [stats, setStats] = useState<ChallengeStatsResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/traffic/challenges?timeWindow=${windowMinutes}`);
+      if (!response.ok) {
+        throw new Error(`Challenge stats API error! status: ${response.status}`);
+      }
+      setStats(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching challenge stats:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [windowMinutes]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchStats();
+    const timer = setInterval(fetchStats, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchStats]);
+
+  return (
+    <div className="challenge-stats">
+      <div className="controls">
+        <span>{stats ? `Challenge at risk score ${stats.threshold} and above` : ''}</span>
+        <select value={windowMinutes} onChange={(e) => setWindowMinutes(Number(e.target.value))} aria-label="Window">
+          {WINDOW_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {loading || !stats ? (
+        <p>Loading challenge stats...</p>
+      ) : stats.assessed === 0 ? (
+        <p>No scored logins in this window.</p>
+      ) : (
+        <div className="tiles">
+          <div className="tile">
+            <strong>{stats.humansSpared}</strong>
+            <span>Humans spared a CAPTCHA ({percent(stats.humansSpared, stats.humansSpared + stats.humansChallenged)} of humans)</span>
+          </div>
+          <div className="tile">
+            <strong>{stats.challenged}</strong>
+            <span>Logins challenged ({stats.humansChallenged} human, {stats.botsChallenged} bot)</span>
+          </div>
+          <div className="tile">
+            <strong>{stats.challengesPassed}</strong>
+            <span>Challenges passed ({percent(stats.challengesPassed, stats.challenged)})</span>
+          </div>
+          <div className={`tile ${stats.botsAllowed > 0 ? 'warn' : ''}`}>
+            <strong>{stats.botsAllowed}</strong>
+            <span>Bots below the threshold</span>
+          </div>
+          <div className="tile">
+            <strong>{stats.averageScore}</strong>
+            <span>Average risk score ({stats.assessed} logins)</span>
+          </div>
+        </div>
+      )}
+
+      <style jsx>{`
+        .controls { display: flex; flex-wrap: wrap; justify-content: space-between; align-items: center; gap: 10px; margin-bottom: 15px; color: #666; }
+        .controls select { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; }
+        .tiles { display: grid; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); gap: 15px; }
+        .tile { display: flex; flex-direction: column; gap: 5px; padding: 15px; border: 1px solid #ddd; border-radius: 6px; background: #fafafa; }
+        .tile strong { font-size: 24px; color: #333; }
+        .tile span { font-size: 13px; color: #666; }
+        .tile.warn strong { color: #c62828; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default ChallengeStatsPanel;
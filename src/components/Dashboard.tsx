@@ -1,77 +1,102 @@
 // src/components/Dashboard.tsx
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import TrafficChart from './TrafficChart';
-import { TrafficLog } from '@/types'; // Still needed for RecentTrafficTable
+import RequestExplorer from './RequestExplorer';
+import TopTalkersPanel from './TopTalkersPanel';
+import AlertsPanel from './AlertsPanel';
+import ChallengeStatsPanel from './ChallengeStatsPanel';
+import InventoryPanel from './InventoryPanel';
+import OrdersPanel from './OrdersPanel';
+import TamperingPanel from './TamperingPanel';
+import LatencyPanel from './LatencyPanel';
+import SimulatorPanel from './SimulatorPanel';
+import { TrafficLog } from '@/types';
 
-const CHART_POLLING_INTERVAL_MS = 5000; // Poll aggregated data every 5 seconds
-const RECENT_LOGS_POLLING_INTERVAL_MS = 15000; // Poll raw logs every 15 seconds
-const RECENT_LOGS_LIMIT = 20; // Max raw logs to show in the table
+const CHART_POLLING_INTERVAL_MS = 5000; // Poll aggregated data every 5 seconds (no stream)
+const CHART_RESYNC_INTERVAL_MS = 30000; // Re-fetch aggregated data every 30 seconds while streaming
+const LIVE_LOGS_LIMIT = 100; // Streamed logs kept for the request explorer
+const STREAM_URL = '/api/traffic/stream';
 
-// Type for the aggregated data from the new API endpoint
+// Types for the aggregated data from /api/dashboard-data
 interface DashboardDataPoint {
   timestamp: number; // Unix timestamp (seconds) for the start of the interval
-  loginCount: number;
-  checkoutCount: number;
+  count: number;
+  segments: Record<string, number>; // e.g. { 'human:2xx': 12, 'bot:4xx': 40 }
 }
 
-// --- Recent Traffic Table (Component remains the same) ---
-const RecentTrafficTable: React.FC<{ data: TrafficLog[] }> = ({ data }) => {
-  if (!data || data.length === 0) {
-    return <p>No recent traffic data available.</p>;
-  }
+type DashboardSeries = Record<string, DashboardDataPoint[]>;
 
-  return (
-    <div className="traffic-table">
-      <table>
-        <thead>
-          <tr>
-            <th>Time</th>
-            <th>Endpoint</th>
-            <th>Method</th>
-            <th>IP Address</th>
-            <th>Status</th>
-          </tr>
-        </thead>
-        <tbody>
-          {data.map((item, index) => (
-            <tr key={`${item.timestamp}-${index}-${item.ip}`}> {/* Improved key */}
-              <td>{new Date(item.timestamp).toLocaleTimeString()}</td>
-              <td>{item.endpoint}</td>
-              <td>{item.method}</td>
-              <td>{item.realIp ?? item.headers?.["x-real-ip"] ?? item.ip ?? 'N/A'}</td>
-              <td>{item.statusCode ?? 'N/A'}</td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-      <style jsx>{`
-        .traffic-table { width: 100%; overflow-x: auto; }
-        table { width: 100%; border-collapse: collapse; }
-        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; white-space: nowrap; }
-        th { background-color: #f5f5f5; font-weight: bold; }
-        tr:nth-child(even) { background-color: #f9f9f9; }
-        tr:hover { background-color: #f0f0f0; }
-      `}</style>
-    </div>
-  );
+// Counter increments pushed by /api/traffic/stream
+interface CounterDelta {
+  endpoint: string;
+  segment: string;   // e.g. 'bot:4xx'
+  timestamp: number; // Unix seconds of the request
+  count: number;
+}
+
+// Apply streamed counter increments to the chart series, adding intervals as time moves on
+const applyCounterDeltas = (series: DashboardSeries, deltas: CounterDelta[], intervalSeconds: number): DashboardSeries => {
+  const next: DashboardSeries = { ...series };
+  for (const delta of deltas) {
+    const intervalStart = Math.floor(delta.timestamp / intervalSeconds) * intervalSeconds;
+    const points = [...(next[delta.endpoint] ?? [])];
+
+    // Append empty intervals up to the one this delta falls in
+    let last = points.length > 0 ? points[points.length - 1].timestamp : intervalStart - intervalSeconds;
+    while (last < intervalStart) {
+      last += intervalSeconds;
+      points.push({ timestamp: last, count: 0, segments: {} });
+    }
+
+    const index = points.findIndex(p => p.timestamp === intervalStart);
+    if (index === -1) continue; // Older than the chart window
+    const point = points[index];
+    points[index] = {
+      ...point,
+      count: point.count + delta.count,
+      segments: { ...point.segments, [delta.segment]: (point.segments[delta.segment] ?? 0) + delta.count },
+    };
+    next[delta.endpoint] = points;
+  }
+  return next;
 };
-// --- End Recent Traffic Table ---
 
+// Chart windows and the intervals offered for each. Long windows use coarse intervals
+// so the API can read from the 1-minute / 1-hour rollups.
+const WINDOW_OPTIONS: { minutes: number; label: string; intervals: { seconds: number; label: string }[] }[] = [
+  { minutes: 2, label: 'Last 2 min', intervals: [{ seconds: 5, label: '5 sec' }, { seconds: 10, label: '10 sec' }, { seconds: 30, label: '30 sec' }] },
+  { minutes: 5, label: 'Last 5 min', intervals: [{ seconds: 5, label: '5 sec' }, { seconds: 10, label: '10 sec' }, { seconds: 30, label: '30 sec' }] },
+  { minutes: 10, label: 'Last 10 min', intervals: [{ seconds: 10, label: '10 sec' }, { seconds: 30, label: '30 sec' }, { seconds: 60, label: '1 min' }] },
+  { minutes: 60, label: 'Last hour', intervals: [{ seconds: 60, label: '1 min' }, { seconds: 300, label: '5 min' }] },
+  { minutes: 24 * 60, label: 'Last 24 hours', intervals: [{ seconds: 3600, label: '1 hour' }, { seconds: 900, label: '15 min' }] },
+  { minutes: 7 * 24 * 60, label: 'Last 7 days', intervals: [{ seconds: 3600, label: '1 hour' }, { seconds: 6 * 3600, label: '6 hours' }] },
+];
 
+// Chart colours (RGB triples), assigned to endpoints in order
+const CHART_COLORS = [
+  '75, 192, 192',
+  '255, 159, 64',
+  '153, 102, 255',
+  '255, 99, 132',
+  '54, 162, 235',
+  '255, 205, 86',
+];
 
 const Dashboard: React.FC = () => {
   // Chart display options - UPDATED DEFAULTS AND VALUES
   const [chartTimeWindowMinutes, setChartTimeWindowMinutes] = useState<number>(5); // Default 5 minutes
   const [chartIntervalSeconds, setChartIntervalSeconds] = useState<number>(10); // Default 10 seconds
 
-  const [chartData, setChartData] = useState<DashboardDataPoint[]>([]);
-  const [recentLogs, setRecentLogs] = useState<TrafficLog[]>([]);
+  const [chartSeries, setChartSeries] = useState<DashboardSeries>({});
+  const [liveLogs, setLiveLogs] = useState<TrafficLog[]>([]); // Newest first, from the stream
   const [chartLoading, setChartLoading] = useState<boolean>(true);
-  const [logsLoading, setLogsLoading] = useState<boolean>(true);
   const [chartError, setChartError] = useState<string | null>(null);
-  const [logsError, setLogsError] = useState<string | null>(null);
   const chartIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const logsIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Live updates via SSE; polling takes over whenever the stream is down
+  const [streamConnected, setStreamConnected] = useState<boolean>(false);
+  const effectiveIntervalRef = useRef<number>(chartIntervalSeconds); // Interval the API actually used
+
+  const intervalOptions = WINDOW_OPTIONS.find(o => o.minutes === chartTimeWindowMinutes)?.intervals ?? [];
 
   // --- Fetch aggregated data for charts ---
   const fetchChartData = useCallback(async () => {
@@ -82,8 +107,9 @@ const Dashboard: React.FC = () => {
       if (!response.ok) {
         throw new Error(`Chart API error! status: ${response.status}`);
       }
-      const data: DashboardDataPoint[] = await response.json();
-      setChartData(data);
+      const data: { series: DashboardSeries; intervalSeconds: number } = await response.json();
+      effectiveIntervalRef.current = data.intervalSeconds ?? chartIntervalSeconds;
+      setChartSeries(data.series ?? {});
       setChartError(null);
     } catch (err) {
       console.error(`Error fetching chart data:`, err);
@@ -93,54 +119,53 @@ const Dashboard: React.FC = () => {
     }
   }, [chartTimeWindowMinutes, chartIntervalSeconds]);
 
-  // --- Fetch recent raw logs for the table ---
-  const fetchRecentLogs = useCallback(async () => {
-    const url = `/api/traffic?limit=${RECENT_LOGS_LIMIT}`;
-    console.log(`Workspaceing recent logs: ${url}`); // Keep for debugging if needed
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Recent Logs API error! status: ${response.status}`);
-      }
-      const logs: TrafficLog[] = await response.json();
-      logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      setRecentLogs(logs);
-      setLogsError(null);
-    } catch (err) {
-      console.error(`Error fetching recent logs:`, err);
-      setLogsError(err instanceof Error ? err.message : 'An unknown error occurred');
-    } finally {
-      setLogsLoading(false);
-    }
-  }, []);
-
   // --- Effects for initial load and polling ---
   useEffect(() => {
     setChartLoading(true);
     fetchChartData();
+  }, [fetchChartData]);
+
+  useEffect(() => {
+    // While streaming, only re-sync occasionally so the window keeps sliding
     if (chartIntervalRef.current) clearInterval(chartIntervalRef.current);
-    chartIntervalRef.current = setInterval(fetchChartData, CHART_POLLING_INTERVAL_MS);
+    chartIntervalRef.current = setInterval(
+      fetchChartData,
+      streamConnected ? CHART_RESYNC_INTERVAL_MS : CHART_POLLING_INTERVAL_MS
+    );
     return () => {
       if (chartIntervalRef.current) clearInterval(chartIntervalRef.current);
     };
-  }, [fetchChartData]);
+  }, [fetchChartData, streamConnected]);
 
+  // --- Live stream (EventSource reconnects on its own, resuming from Last-Event-ID) ---
   useEffect(() => {
-    setLogsLoading(true);
-    fetchRecentLogs();
-    if (logsIntervalRef.current) clearInterval(logsIntervalRef.current);
-    logsIntervalRef.current = setInterval(fetchRecentLogs, RECENT_LOGS_POLLING_INTERVAL_MS);
+    if (typeof EventSource === 'undefined') return; // Polling only
+
+    const source = new EventSource(STREAM_URL);
+    source.onopen = () => setStreamConnected(true);
+    source.onerror = () => setStreamConnected(false);
+
+    source.addEventListener('log', (event) => {
+      const log: TrafficLog = JSON.parse((event as MessageEvent).data);
+      setLiveLogs(prev => [log, ...prev].slice(0, LIVE_LOGS_LIMIT));
+    });
+
+    source.addEventListener('counts', (event) => {
+      const { deltas }: { deltas: CounterDelta[] } = JSON.parse((event as MessageEvent).data);
+      setChartSeries(prev => applyCounterDeltas(prev, deltas, effectiveIntervalRef.current));
+    });
+
     return () => {
-      if (logsIntervalRef.current) clearInterval(logsIntervalRef.current);
+      source.close();
+      setStreamConnected(false);
     };
-  }, [fetchRecentLogs]);
+  }, []);
 
-  // Prepare data for charts
-  const loginChartData = chartData.map(d => ({ timestamp: d.timestamp, count: d.loginCount }));
-  const checkoutChartData = chartData.map(d => ({ timestamp: d.timestamp, count: d.checkoutCount }));
+  // One chart per endpoint, in a stable order
+  const endpoints = Object.keys(chartSeries).sort();
 
   // --- Render Logic ---
-  if (chartLoading || logsLoading) {
+  if (chartLoading) {
     return <div className="loading">Loading dashboard data...</div>;
   }
 
@@ -148,56 +173,101 @@ const Dashboard: React.FC = () => {
     <div className="dashboard">
       <div className="dashboard-header">
         <h1>Traffic Dashboard</h1>
+        <span className={`live-indicator ${streamConnected ? 'live' : ''}`}>
+          {streamConnected ? '● Live' : 'Polling'}
+        </span>
         <div className="time-filter">
             <label htmlFor="timeWindow">Chart Window:</label>
-            {/* UPDATED Time Window Options */}
             <select
               id="timeWindow"
               value={chartTimeWindowMinutes}
-              onChange={(e) => setChartTimeWindowMinutes(Number(e.target.value))}
+              onChange={(e) => {
+                const minutes = Number(e.target.value);
+                setChartTimeWindowMinutes(minutes);
+                // Keep the interval valid for the new window
+                const intervals = WINDOW_OPTIONS.find(o => o.minutes === minutes)?.intervals ?? [];
+                if (!intervals.some(i => i.seconds === chartIntervalSeconds) && intervals.length > 0) {
+                  setChartIntervalSeconds(intervals[0].seconds);
+                }
+              }}
             >
-              <option value={2}>Last 2 min</option>
-              <option value={5}>Last 5 min</option> {/* Default */}
-              <option value={10}>Last 10 min</option>
+              {WINDOW_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+              ))}
             </select>
 
             <label htmlFor="interval">Interval:</label>
-            {/* UPDATED Interval Options */}
              <select
                 id="interval"
                 value={chartIntervalSeconds}
                 onChange={(e) => setChartIntervalSeconds(Number(e.target.value))}
               >
-               <option value={5}>5 sec</option>
-               <option value={10}>10 sec</option> {/* Default */}
-               <option value={30}>30 sec</option>
+               {intervalOptions.map(interval => (
+                 <option key={interval.seconds} value={interval.seconds}>{interval.label}</option>
+               ))}
              </select>
         </div>
       </div>
 
       {chartError && <p className="error-message">Chart Data Error: {chartError}</p>}
-      {logsError && <p className="error-message">Recent Logs Error: {logsError}</p>}
+
+      <div className="simulator-section">
+        <h2>Traffic Simulator</h2>
+        <SimulatorPanel />
+      </div>
+
+      <div className="alerts-section">
+        <h2>Credential Stuffing Alerts</h2>
+        <AlertsPanel />
+      </div>
 
       <div className="charts-container">
-        <div className="chart-section">
-          <h2>Login Endpoint Activity</h2>
-          <TrafficChart
-            aggregatedData={loginChartData}
-            label="Logins"
-          />
-        </div>
-        <div className="chart-section">
-          <h2>Checkout Endpoint Activity</h2>
-          <TrafficChart
-            aggregatedData={checkoutChartData}
-            label="Checkouts"
-          />
-        </div>
+        {endpoints.length === 0 && <p>No endpoint activity recorded yet.</p>}
+        {endpoints.map((endpoint, index) => (
+          <div className="chart-section" key={endpoint}>
+            <h2>{endpoint}</h2>
+            <TrafficChart
+              aggregatedData={chartSeries[endpoint]}
+              label={endpoint}
+              color={CHART_COLORS[index % CHART_COLORS.length]}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="latency-section">
+        <h2>Latency</h2>
+        <LatencyPanel />
+      </div>
+
+      <div className="challenges-section">
+        <h2>Adaptive Login Challenges</h2>
+        <ChallengeStatsPanel />
+      </div>
+
+      <div className="inventory-section">
+        <h2>Inventory</h2>
+        <InventoryPanel />
+      </div>
+
+      <div className="orders-section">
+        <h2>Orders</h2>
+        <OrdersPanel />
+      </div>
+
+      <div className="tampering-section">
+        <h2>Price Manipulation Attempts</h2>
+        <TamperingPanel />
+      </div>
+
+      <div className="top-talkers-section">
+        <h2>Top Talkers</h2>
+        <TopTalkersPanel />
       </div>
 
       <div className="recent-traffic">
-        <h2>Recent Requests (Last {recentLogs.length})</h2>
-        <RecentTrafficTable data={recentLogs} />
+        <h2>Request Explorer</h2>
+        <RequestExplorer endpoints={endpoints} liveLogs={liveLogs} streamConnected={streamConnected} />
       </div>
 
       {/* Styles remain the same */}
@@ -209,9 +279,12 @@ const Dashboard: React.FC = () => {
         .time-filter select { padding: 8px; border-radius: 4px; border: 1px solid #ddd; }
         .charts-container { display: grid; grid-template-columns: 1fr; gap: 30px; margin-bottom: 30px; }
         @media (min-width: 768px) { .charts-container { grid-template-columns: 1fr 1fr; } }
-        .chart-section, .recent-traffic { background: white; border-radius: 8px; padding: 20px; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
-        .chart-section h2, .recent-traffic h2 { margin-top: 0; margin-bottom: 15px; font-size: 18px; color: #333; }
+        .chart-section, .simulator-section, .alerts-section, .challenges-section, .inventory-section, .orders-section, .tampering-section, .latency-section, .top-talkers-section, .recent-traffic { background: white; border-radius: 8px; padding: 20px; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1); }
+        .simulator-section, .alerts-section, .challenges-section, .inventory-section, .orders-section, .tampering-section, .latency-section, .top-talkers-section { margin-bottom: 30px; }
+        .chart-section h2, .simulator-section h2, .alerts-section h2, .challenges-section h2, .inventory-section h2, .orders-section h2, .tampering-section h2, .latency-section h2, .top-talkers-section h2, .recent-traffic h2 { margin-top: 0; margin-bottom: 15px; font-size: 18px; color: #333; }
         .loading { display: flex; justify-content: center; align-items: center; height: 200px; font-size: 18px; }
+        .live-indicator { font-size: 14px; color: #888; }
+        .live-indicator.live { color: #2e7d32; font-weight: bold; }
         .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
       `}</style>
     </div>
@@ -2,7 +2,8 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { User } from '@/types';
+import { Cart, User } from '@/types';
+import { CART_UPDATED_EVENT, fetchCart } from '@/utils/cart-api';
 
 const Header: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -10,31 +11,35 @@ const Header: React.FC = () => {
   const router = useRouter();
   
   useEffect(() => {
-    // Check if user is logged in
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      setUser(JSON.parse(userData));
-    }
+    // Check if user is logged in (the session cookie is HTTP-only, so ask the server)
+    fetch('/api/auth/me')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setUser(data?.user ?? null))
+      .catch(() => setUser(null));
     
-    // Get cart items count
-    const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-    setCartItems(cart.length);
+    // Get cart items count (sum of quantities)
+    fetchCart()
+      .then(cart => setCartItems(cart.itemCount))
+      .catch(() => setCartItems(0));
     
     // Add event listener for cart updates
-    const handleCartUpdate = () => {
-      const updatedCart = JSON.parse(localStorage.getItem('cart') || '[]');
-      setCartItems(updatedCart.length);
+    const handleCartUpdate = (event: Event) => {
+      setCartItems((event as CustomEvent<Cart>).detail.itemCount);
     };
     
-    window.addEventListener('cartUpdated', handleCartUpdate);
+    window.addEventListener(CART_UPDATED_EVENT, handleCartUpdate);
     
     return () => {
-      window.removeEventListener('cartUpdated', handleCartUpdate);
+      window.removeEventListener(CART_UPDATED_EVENT, handleCartUpdate);
     };
   }, []);
   
-  const handleLogout = () => {
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
     setUser(null);
     router.push('/login');
   };
@@ -56,10 +61,16 @@ const Header: React.FC = () => {
         
         {user ? (
           <>
-            <Link href="/dashboard" className="nav-link">
-              Dashboard
+            <Link href="/orders" className="nav-link">
+              Orders
             </Link>
             
+            {user.role === 'admin' && (
+              <Link href="/dashboard" className="nav-link">
+                Dashboard
+              </Link>
+            )}
+            
             <button onClick={handleLogout} className="logout-btn">
               Logout
             </button>
@@ -69,8 +80,8 @@ const Header: React.FC = () => {
             <Link href="/login" className="nav-link">
               Login
             </Link>
-            <Link href="/captcha-login" className="nav-link">
-              Login with CAPTCHA
+            <Link href="/register" className="nav-link">
+              Register
             </Link>
           </>
         )}
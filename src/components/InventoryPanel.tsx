@@ -0,0 +1,101 @@
+// src/components/InventoryPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import type { InventoryLevel } from '@/utils/product-store';
+
+const POLLING_INTERVAL_MS = 5000; // Drops sell out fast, so refresh every 5 seconds
+
+const InventoryPanel: React.FC = () => {
+  const [inventory, setInventory] = useState<InventoryLevel[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [restocking, setRestocking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInventory = useCallback(async (init?: RequestInit) => {
+    try {
+      const response = await fetch('/api/inventory', init);
+      if (!response.ok) {
+        throw new Error(`Inventory API error! status: ${response.status}`);
+      }
+      const data: { inventory: InventoryLevel[] } = await response.json();
+      setInventory(data.inventory ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching inventory:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInventory();
+    const timer = setInterval(fetchInventory, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchInventory]);
+
+  const restock = async () => {
+    setRestocking(true);
+    await fetchInventory({ method: 'POST' });
+    setRestocking(false);
+  };
+
+  return (
+    <div className="inventory">
+      <div className="controls">
+        <button onClick={restock} disabled={restocking}>
+          {restocking ? 'Restocking...' : 'Restock All (new drop)'}
+        </button>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {loading ? (
+        <p>Loading inventory...</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>SKU</th>
+              <th>Product</th>
+              <th>Stock</th>
+              <th>Sold</th>
+              <th>Limit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {inventory.map(({ product, initialStock }) => (
+              <tr key={product.id}>
+                <td className="mono">{product.sku}</td>
+                <td>{product.name}</td>
+                <td>
+                  <div className="bar" title={`${product.stock} of ${initialStock}`}>
+                    <span style={{ width: `${initialStock > 0 ? (product.stock / initialStock) * 100 : 0}%` }} />
+                  </div>
+                  <span className={product.stock === 0 ? 'sold-out' : ''}>{product.stock} / {initialStock}</span>
+                </td>
+                <td>{Math.max(initialStock - product.stock, 0)}</td>
+                <td>{product.limitedDrop ? `${product.limitedDrop.perAccountLimit} per account` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <style jsx>{`
+        .controls { display: flex; justify-content: flex-end; margin-bottom: 15px; }
+        .controls button { padding: 6px 12px; border-radius: 4px; border: 1px solid #0070f3; background: #0070f3; color: white; cursor: pointer; }
+        .controls button:disabled { background: #ccc; border-color: #ccc; cursor: not-allowed; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; white-space: nowrap; }
+        th { background-color: #f5f5f5; font-weight: bold; }
+        .mono { font-family: monospace; }
+        .bar { display: inline-block; width: 120px; height: 8px; margin-right: 10px; background: #eee; border-radius: 4px; overflow: hidden; vertical-align: middle; }
+        .bar span { display: block; height: 100%; background: #4caf50; }
+        .sold-out { color: #c62828; font-weight: bold; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default InventoryPanel;
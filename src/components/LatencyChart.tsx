@@ -0,0 +1,72 @@
+// src/components/LatencyChart.tsx
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  TimeScale,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import 'chartjs-adapter-date-fns';
+import type { LatencyPoint } from '@/utils/traffic-analytics';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend, TimeScale);
+
+// One line per percentile (RGB triples)
+const PERCENTILE_STYLES: { key: 'p50' | 'p95' | 'p99'; label: string; color: string }[] = [
+  { key: 'p50', label: 'p50', color: '75, 192, 120' },
+  { key: 'p95', label: 'p95', color: '255, 159, 64' },
+  { key: 'p99', label: 'p99', color: '255, 99, 132' },
+];
+
+interface LatencyChartProps {
+  series: LatencyPoint[];
+}
+
+const LatencyChart: React.FC<LatencyChartProps> = ({ series }) => {
+  const chartData = useMemo(() => ({
+    datasets: PERCENTILE_STYLES.map(style => ({
+      label: style.label,
+      data: series.map(point => ({ x: point.timestamp * 1000, y: point[style.key] })),
+      borderColor: `rgba(${style.color}, 1)`,
+      backgroundColor: `rgba(${style.color}, 0.2)`,
+      tension: 0.1,
+      pointRadius: 2,
+      pointHoverRadius: 4,
+    })),
+  }), [series]);
+
+  const chartOptions = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        type: 'time' as const,
+        time: { unit: 'minute' as const, tooltipFormat: 'PPpp', displayFormats: { minute: 'HH:mm' } },
+      },
+      y: {
+        beginAtZero: true,
+        title: { display: true, text: 'ms' },
+      },
+    },
+    animation: { duration: 250 },
+    plugins: {
+      legend: { position: 'top' as const },
+      tooltip: { mode: 'index' as const, intersect: false },
+    },
+  }), []);
+
+  return (
+    <div className="chart-wrapper">
+      <Line data={chartData} options={chartOptions} height={200} />
+      <style jsx>{`
+        .chart-wrapper { height: 200px; position: relative; }
+      `}</style>
+    </div>
+  );
+};
+
+export default LatencyChart;
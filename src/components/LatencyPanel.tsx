@@ -0,0 +1,103 @@
+// src/components/LatencyPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import LatencyChart from './LatencyChart';
+import type { LatencyStats } from '@/utils/traffic-analytics';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh every 15 seconds
+const WINDOW_OPTIONS = [
+  { minutes: 5, label: 'Last 5 min' },
+  { minutes: 15, label: 'Last 15 min' },
+  { minutes: 30, label: 'Last 30 min' },
+];
+const BUCKET_OPTIONS = [
+  { seconds: 10, label: '10s buckets' },
+  { seconds: 60, label: '1m buckets' },
+  { seconds: 300, label: '5m buckets' },
+];
+
+const formatBytes = (bytes: number | null): string =>
+  bytes === null ? '-' : bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// Handler time percentiles per endpoint, from the durations timed routes record on their logs
+const LatencyPanel: React.FC = () => {
+  const [windowMinutes, setWindowMinutes] = useState<number>(30);
+  const [bucketSeconds, setBucketSeconds] = useState<number>(60);
+  const [stats, setStats] = useState<LatencyStats | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/traffic/latency?timeWindow=${windowMinutes}&bucketSeconds=${bucketSeconds}`);
+      if (!response.ok) {
+        throw new Error(`Latency API error! status: ${response.status}`);
+      }
+      setStats(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching latency stats:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [windowMinutes, bucketSeconds]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchStats();
+    const timer = setInterval(fetchStats, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchStats]);
+
+  return (
+    <div className="latency">
+      <div className="controls">
+        <select value={windowMinutes} onChange={(e) => setWindowMinutes(Number(e.target.value))} aria-label="Window">
+          {WINDOW_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+        </select>
+        <select value={bucketSeconds} onChange={(e) => setBucketSeconds(Number(e.target.value))} aria-label="Bucket size">
+          {BUCKET_OPTIONS.map(option => <option key={option.seconds} value={option.seconds}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {loading || !stats ? (
+        <p>Loading latency...</p>
+      ) : stats.endpoints.length === 0 ? (
+        <p>No timed requests in this window.</p>
+      ) : (
+        <div className="endpoints">
+          {stats.endpoints.map(endpoint => (
+            <div className="endpoint" key={endpoint.endpoint}>
+              <h3>{endpoint.endpoint}</h3>
+              <p className="summary">
+                {endpoint.count} requests · p50 {endpoint.p50} ms · p95 {endpoint.p95} ms · p99 {endpoint.p99} ms · avg response {formatBytes(endpoint.averageResponseBytes)}
+              </p>
+              {endpoint.upstream.map(call => (
+                <p className="summary upstream" key={call.name}>
+                  {call.name}: {call.count} calls · p50 {call.p50} ms · p95 {call.p95} ms
+                </p>
+              ))}
+              <LatencyChart series={endpoint.series} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style jsx>{`
+        .controls { display: flex; justify-content: flex-end; gap: 10px; margin-bottom: 15px; }
+        .controls select { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; }
+        .endpoints { display: grid; grid-template-columns: 1fr; gap: 20px; }
+        @media (min-width: 768px) { .endpoints { grid-template-columns: 1fr 1fr; } }
+        .endpoint { border: 1px solid #eee; border-radius: 6px; padding: 15px; }
+        .endpoint h3 { margin: 0 0 5px; font-size: 15px; }
+        .summary { margin: 0 0 5px; font-size: 13px; color: #555; }
+        .upstream { color: #888; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default LatencyPanel;
@@ -1,13 +1,19 @@
 // src/components/LoginForm.tsx
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { User } from '@/types';
+import type { CaptchaClientConfig } from '@/utils/captcha';
+import CaptchaWidget from './CaptchaWidget';
 
 const LoginForm: React.FC = () => {
   const [email, setEmail] = useState<string>('');
   const [password, setPassword] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
+  // Set once the server decides this login looks risky enough to need a CAPTCHA
+  const [captchaConfig, setCaptchaConfig] = useState<CaptchaClientConfig | null>(null);
+  const [captchaToken, setCaptchaToken] = useState<string>('');
+  const [captchaAttempt, setCaptchaAttempt] = useState<number>(0);
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -21,22 +27,29 @@ const LoginForm: React.FC = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify(captchaToken ? { email, password, captchaToken } : { email, password }),
       });
 
       const data = await response.json();
 
+      if (data.captchaRequired) {
+        setCaptchaConfig(data.captcha);
+      }
+      if (captchaToken) {
+        // Tokens are single-use; remount the widget for a fresh one
+        setCaptchaAttempt(attempt => attempt + 1);
+        setCaptchaToken('');
+      }
+
       if (!response.ok) {
         throw new Error(data.message || 'Something went wrong');
       }
 
-      // Save user data to local storage
-      localStorage.setItem('user', JSON.stringify(data.user));
-      
-      // Redirect to home page
-      router.push('/');
-    } catch (err: any) {
-      setError(err.message);
+      // Redirect to the page that sent us here (same-site paths only), or home
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
       setLoading(false);
     }
@@ -73,10 +86,21 @@ const LoginForm: React.FC = () => {
           />
         </div>
         
-        <button type="submit" disabled={loading}>
+        {captchaConfig && (
+          <div className="form-group">
+            <label>CAPTCHA Verification</label>
+            <CaptchaWidget key={captchaAttempt} config={captchaConfig} onToken={setCaptchaToken} />
+          </div>
+        )}
+        
+        <button type="submit" disabled={loading || (captchaConfig !== null && !captchaToken)}>
           {loading ? 'Logging in...' : 'Login'}
         </button>
       </form>
+
+      <p className="links">
+        <Link href="/reset-password">Forgot password?</Link> · <Link href="/register">Create an account</Link>
+      </p>
       
       <div className="demo-credentials">
         <p>Demo credentials:</p>
@@ -139,6 +163,11 @@ const LoginForm: React.FC = () => {
           border-radius: 4px;
         }
         
+        .links {
+          margin-top: 15px;
+          text-align: center;
+        }
+        
         .demo-credentials {
           margin-top: 20px;
           padding: 10px;
@@ -0,0 +1,100 @@
+// src/components/OrdersPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { Order } from '@/types';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh every 15 seconds
+const ORDER_LIMIT = 50;
+
+// Every account's orders with the request each came from (admin dashboard)
+const OrdersPanel: React.FC = () => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/orders?scope=all&limit=${ORDER_LIMIT}`);
+      if (!response.ok) {
+        throw new Error(`Orders API error! status: ${response.status}`);
+      }
+      const data: { orders: Order[] } = await response.json();
+      setOrders(data.orders ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching orders:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+    const timer = setInterval(fetchOrders, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchOrders]);
+
+  const botOrders = orders.filter(order => order.origin?.isBot).length;
+
+  return (
+    <div className="orders">
+      {error && <p className="error-message">{error}</p>}
+
+      {loading ? (
+        <p>Loading orders...</p>
+      ) : orders.length === 0 ? (
+        <p>No orders yet.</p>
+      ) : (
+        <>
+          <p className="summary">{orders.length} most recent orders, {botOrders} placed by bots.</p>
+          <div className="orders-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Order</th>
+                  <th>Account</th>
+                  <th>Items</th>
+                  <th>Total</th>
+                  <th>IP Address</th>
+                  <th>Class</th>
+                  <th>User Agent</th>
+                  <th>Log ID</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.map(order => (
+                  <tr key={order.id} className={order.origin?.isBot ? 'bot' : ''}>
+                    <td>{new Date(order.createdAt).toLocaleTimeString()}</td>
+                    <td className="mono">{order.id}</td>
+                    <td>{order.account}</td>
+                    <td>{order.items.reduce((sum, item) => sum + item.quantity, 0)}</td>
+                    <td>${order.total.toFixed(2)}</td>
+                    <td className="mono">{order.origin?.ip ?? '-'}</td>
+                    <td>{order.origin ? (order.origin.isBot ? 'Bot' : 'Human') : '-'}{order.origin?.classification ? ` (${order.origin.classification})` : ''}</td>
+                    <td className="ua" title={order.origin?.userAgent}>{order.origin?.userAgent ?? '-'}</td>
+                    <td className="mono">{order.origin?.logId ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <style jsx>{`
+        .summary { color: #666; margin-top: 0; }
+        .orders-table { width: 100%; overflow-x: auto; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; white-space: nowrap; }
+        th { background-color: #f5f5f5; font-weight: bold; }
+        tr.bot { background-color: #fff3f3; }
+        .mono { font-family: monospace; }
+        .ua { max-width: 240px; overflow: hidden; text-overflow: ellipsis; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default OrdersPanel;
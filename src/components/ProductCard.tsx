@@ -2,6 +2,7 @@
 import { useState } from 'react';
 import Image from 'next/image'; // Import Next.js Image component
 import { Product } from '@/types';
+import { addToCart as addProductToCart } from '@/utils/cart-api';
 
 interface ProductCardProps {
   product: Product;
@@ -9,21 +10,17 @@ interface ProductCardProps {
 
 const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
   const [adding, setAdding] = useState<boolean>(false);
+  const soldOut = product.stock <= 0;
   
-  const addToCart = () => {
+  const addToCart = async () => {
     setAdding(true);
     
-    // Get current cart from localStorage
-    const currentCart = JSON.parse(localStorage.getItem('cart') || '[]');
-    
-    // Add product to cart
-    const updatedCart = [...currentCart, { ...product, quantity: 1 }];
-    
-    // Save updated cart to localStorage
-    localStorage.setItem('cart', JSON.stringify(updatedCart));
-    
-    // Dispatch event to notify other components
-    window.dispatchEvent(new Event('cartUpdated'));
+    try {
+      // The cart lives on the server; adding a product already in it raises its quantity
+      await addProductToCart(product.id);
+    } catch (error) {
+      console.error('Add to cart error:', error);
+    }
     
     // Reset adding state after 1 second
     setTimeout(() => {
@@ -51,13 +48,16 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
         <h3>{product.name}</h3>
         <p className="product-price">${product.price.toFixed(2)}</p>
         <p className="product-description">{product.description}</p>
+        <p className="product-meta">
+          SKU {product.sku} · {soldOut ? <span className="sold-out">Sold out</span> : `${product.stock} in stock`}
+        </p>
         
         <button 
           onClick={addToCart} 
-          disabled={adding}
+          disabled={adding || soldOut}
           className="add-to-cart-btn"
         >
-          {adding ? 'Adding...' : 'Add to Cart'}
+          {soldOut ? 'Sold Out' : adding ? 'Adding...' : 'Add to Cart'}
         </button>
       </div>
       
@@ -113,6 +113,17 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
           flex-grow: 1; /* Allow description to take available space */
         }
         
+        .product-meta {
+          color: #888;
+          font-size: 13px;
+          margin: 0 0 15px;
+        }
+        
+        .sold-out {
+          color: #c62828;
+          font-weight: bold;
+        }
+        
         .add-to-cart-btn {
           background-color: #0070f3;
           color: white;
@@ -0,0 +1,83 @@
+// src/components/RequestDetailDrawer.tsx
+import React from 'react';
+import { TrafficLog } from '@/types';
+
+interface RequestDetailDrawerProps {
+  log: TrafficLog | null;
+  onClose: () => void;
+}
+
+const RequestDetailDrawer: React.FC<RequestDetailDrawerProps> = ({ log, onClose }) => {
+  if (!log) return null;
+
+  const headerEntries = Object.entries(log.headers ?? {}).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="drawer-backdrop" onClick={onClose}>
+      <aside className="drawer" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3>{log.method} {log.endpoint}</h3>
+          <button className="close-btn" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <dl className="summary">
+          <dt>Time</dt><dd>{new Date(log.timestamp).toLocaleString()}</dd>
+          {log.url && log.url !== log.endpoint && (<><dt>URL</dt><dd className="mono wrap">{log.url}</dd></>)}
+          <dt>Status</dt><dd>{log.statusCode ?? 'N/A'}</dd>
+          {log.durationMs !== undefined && (<><dt>Duration</dt><dd>{log.durationMs} ms{log.responseBytes !== undefined ? `, ${log.responseBytes} bytes` : ''}</dd></>)}
+          {log.upstream && (<><dt>Upstream</dt><dd>{log.upstream.map(call => `${call.name}${call.outcome ? ` (${call.outcome})` : ''}: ${call.durationMs} ms`).join(', ')}</dd></>)}
+          <dt>IP Address</dt><dd>{log.realIp ?? log.ip}</dd>
+          <dt>Classification</dt><dd>{log.isBot ? 'Bot' : 'Human'}</dd>
+          <dt>User Agent</dt><dd className="wrap">{log.userAgent}</dd>
+          {log.account && (<><dt>Account</dt><dd>{log.account}</dd></>)}
+          {log.reason && (<><dt>Reason</dt><dd className="mono">{log.reason}</dd></>)}
+          {log.risk && (<><dt>Risk</dt><dd>{log.risk.score} / {log.risk.threshold} ({log.risk.decision}; bot {log.risk.signals.classification}, failures {log.risk.signals.recentFailures}, velocity {log.risk.signals.velocity})</dd></>)}
+          {log.tampering && (<><dt>Altered Prices</dt><dd>{log.tampering.map(line => `product ${line.productId}: ${JSON.stringify(line.claimedPrice)} (catalog ${line.catalogPrice})`).join(', ')}</dd></>)}
+          {log.captcha && (<><dt>CAPTCHA</dt><dd>{log.captcha.provider}: {log.captcha.outcome} in {log.captcha.latencyMs} ms</dd></>)}
+          {log.id && (<><dt>Log ID</dt><dd className="mono">{log.id}</dd></>)}
+        </dl>
+
+        <h4>Headers ({headerEntries.length})</h4>
+        <table className="headers-table">
+          <tbody>
+            {headerEntries.map(([name, value]) => (
+              <tr key={name}>
+                <th>{name}</th>
+                <td>{Array.isArray(value) ? value.join(', ') : value ?? ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {log.body !== undefined && (
+          <>
+            <h4 className="body-heading">Body (redacted)</h4>
+            <pre className="body">{JSON.stringify(log.body, null, 2)}</pre>
+          </>
+        )}
+      </aside>
+
+      <style jsx>{`
+        .drawer-backdrop { position: fixed; inset: 0; background: rgba(0, 0, 0, 0.3); z-index: 100; display: flex; justify-content: flex-end; }
+        .drawer { width: min(560px, 100%); height: 100%; overflow-y: auto; background: white; padding: 20px; box-shadow: -2px 0 8px rgba(0, 0, 0, 0.2); }
+        .drawer-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 15px; }
+        .drawer-header h3 { margin: 0; font-size: 18px; word-break: break-all; }
+        .close-btn { background: none; border: none; font-size: 24px; cursor: pointer; color: #666; }
+        .summary { display: grid; grid-template-columns: max-content 1fr; gap: 6px 15px; margin: 0 0 20px; }
+        .summary dt { font-weight: bold; color: #555; }
+        .summary dd { margin: 0; }
+        .wrap { word-break: break-word; }
+        .mono { font-family: monospace; }
+        h4 { margin: 0 0 10px; }
+        .headers-table { width: 100%; border-collapse: collapse; font-size: 13px; }
+        .headers-table th, .headers-table td { padding: 6px 8px; border-bottom: 1px solid #eee; text-align: left; vertical-align: top; }
+        .headers-table th { white-space: nowrap; color: #555; font-family: monospace; }
+        .headers-table td { word-break: break-all; font-family: monospace; }
+        .body-heading { margin-top: 20px; }
+        .body { margin: 0; padding: 10px; background: #f5f5f5; border-radius: 4px; font-size: 13px; white-space: pre-wrap; word-break: break-all; }
+      `}</style>
+    </div>
+  );
+};
+
+export default RequestDetailDrawer;
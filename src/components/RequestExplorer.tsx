@@ -0,0 +1,251 @@
+// src/components/RequestExplorer.tsx
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import RequestDetailDrawer from './RequestDetailDrawer';
+import { TrafficLog } from '@/types';
+import { matchesLogFilters, TrafficLogFilters } from '@/utils/traffic-store/filters';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh the first page every 15 seconds when there is no stream
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const RANGE_OPTIONS: { value: string; label: string }[] = [
+  { value: '15', label: 'Last 15 min' },
+  { value: '30', label: 'Last 30 min' },
+  { value: '60', label: 'Last hour' },
+  { value: 'all', label: 'All retained' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+interface ExplorerFilters {
+  endpoint: string;
+  method: string;
+  status: string;    // "401" or "4xx"
+  bot: '' | 'bot' | 'human';
+  ip: string;
+  userAgent: string;
+  range: string;     // Minutes, 'all' or 'custom'
+  from: string;      // datetime-local value (custom range)
+  to: string;        // datetime-local value (custom range)
+}
+
+const EMPTY_FILTERS: ExplorerFilters = {
+  endpoint: '', method: '', status: '', bot: '', ip: '', userAgent: '', range: '30', from: '', to: '',
+};
+
+interface RequestExplorerProps {
+  endpoints: string[];       // Known endpoints for the filter dropdown
+  liveLogs: TrafficLog[];    // Newest first, pushed by the dashboard stream
+  streamConnected: boolean;
+}
+
+// Translate the form into /api/traffic query parameters and a client-side matcher
+const toQuery = (filters: ExplorerFilters): { params: URLSearchParams; matcher: TrafficLogFilters } => {
+  const params = new URLSearchParams();
+  const matcher: TrafficLogFilters = {};
+  if (filters.endpoint) { params.set('endpoint', filters.endpoint); matcher.endpoint = filters.endpoint; }
+  if (filters.method) { params.set('method', filters.method); matcher.method = filters.method; }
+  if (filters.status) { params.set('status', filters.status.trim()); matcher.status = filters.status.trim(); }
+  if (filters.bot) { params.set('isBot', String(filters.bot === 'bot')); matcher.isBot = filters.bot === 'bot'; }
+  if (filters.ip) { params.set('ip', filters.ip.trim()); matcher.ip = filters.ip.trim(); }
+  if (filters.userAgent) { params.set('userAgent', filters.userAgent); matcher.userAgent = filters.userAgent; }
+
+  if (filters.range === 'custom') {
+    if (filters.from) { params.set('from', String(new Date(filters.from).getTime())); matcher.since = new Date(filters.from).getTime() - 1; }
+    if (filters.to) { params.set('to', String(new Date(filters.to).getTime())); matcher.until = new Date(filters.to).getTime(); }
+  } else if (filters.range !== 'all') {
+    const from = Date.now() - Number(filters.range) * 60 * 1000;
+    params.set('from', String(from));
+    matcher.since = from - 1;
+  }
+  return { params, matcher };
+};
+
+const RequestExplorer: React.FC<RequestExplorerProps> = ({ endpoints, liveLogs, streamConnected }) => {
+  const [draft, setDraft] = useState<ExplorerFilters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<ExplorerFilters>(EMPTY_FILTERS);
+  const [pageSize, setPageSize] = useState<number>(PAGE_SIZE_OPTIONS[0]);
+  // Cursors of the pages visited so far; the last one is the current page (null = newest)
+  const [cursorStack, setCursorStack] = useState<(string | null)[]>([null]);
+  const [logs, setLogs] = useState<TrafficLog[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<TrafficLog | null>(null);
+
+  const currentCursor = cursorStack[cursorStack.length - 1];
+  const onFirstPage = cursorStack.length === 1;
+
+  const fetchPage = useCallback(async () => {
+    const { params } = toQuery(applied);
+    params.set('limit', String(pageSize));
+    if (currentCursor) params.set('cursor', currentCursor);
+
+    try {
+      const response = await fetch(`/api/traffic?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || `Traffic API error! status: ${response.status}`);
+      }
+      const page: { logs: TrafficLog[]; nextCursor: string | null } = await response.json();
+      setLogs(page.logs);
+      setNextCursor(page.nextCursor);
+      setFetchedAt(Date.now());
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching traffic logs:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, pageSize, currentCursor]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPage();
+  }, [fetchPage]);
+
+  // Without a stream, keep the newest page fresh by polling
+  useEffect(() => {
+    if (streamConnected || !onFirstPage) return;
+    const timer = setInterval(fetchPage, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchPage, streamConnected, onFirstPage]);
+
+  // On the newest page, merge in streamed logs that match the filters
+  const rows = useMemo(() => {
+    const { matcher } = toQuery(applied);
+    if (!onFirstPage || matcher.until !== undefined) return logs;
+
+    const seen = new Set(logs.map(log => log.id).filter(Boolean));
+    const fresh = liveLogs.filter(log =>
+      new Date(log.timestamp).getTime() >= fetchedAt - 1000 &&
+      !(log.id && seen.has(log.id)) &&
+      matchesLogFilters(log, matcher)
+    );
+    return [...fresh, ...logs].slice(0, pageSize);
+  }, [applied, onFirstPage, logs, liveLogs, fetchedAt, pageSize]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied(draft);
+    setCursorStack([null]);
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setApplied(EMPTY_FILTERS);
+    setCursorStack([null]);
+  };
+
+  const updateDraft = (field: keyof ExplorerFilters) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="request-explorer">
+      <form className="filters" onSubmit={applyFilters}>
+        <select value={draft.endpoint} onChange={updateDraft('endpoint')} aria-label="Endpoint">
+          <option value="">All endpoints</option>
+          {endpoints.map(endpoint => <option key={endpoint} value={endpoint}>{endpoint}</option>)}
+        </select>
+        <select value={draft.method} onChange={updateDraft('method')} aria-label="Method">
+          <option value="">Any method</option>
+          {METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+        </select>
+        <input value={draft.status} onChange={updateDraft('status')} placeholder="Status (401, 4xx)" aria-label="Status" />
+        <select value={draft.bot} onChange={updateDraft('bot')} aria-label="Classification">
+          <option value="">Bots and humans</option>
+          <option value="bot">Bots only</option>
+          <option value="human">Humans only</option>
+        </select>
+        <input value={draft.ip} onChange={updateDraft('ip')} placeholder="IP address" aria-label="IP address" />
+        <input value={draft.userAgent} onChange={updateDraft('userAgent')} placeholder="User agent contains..." aria-label="User agent" />
+        <select value={draft.range} onChange={updateDraft('range')} aria-label="Time range">
+          {RANGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        {draft.range === 'custom' && (
+          <>
+            <input type="datetime-local" value={draft.from} onChange={updateDraft('from')} aria-label="From" />
+            <input type="datetime-local" value={draft.to} onChange={updateDraft('to')} aria-label="To" />
+          </>
+        )}
+        <button type="submit">Apply</button>
+        <button type="button" onClick={resetFilters}>Reset</button>
+      </form>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {loading ? (
+        <p>Loading requests...</p>
+      ) : rows.length === 0 ? (
+        <p>No requests match these filters.</p>
+      ) : (
+        <div className="traffic-table">
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Endpoint</th>
+                <th>Method</th>
+                <th>IP Address</th>
+                <th>Status</th>
+                <th>Class</th>
+                <th>User Agent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((item, index) => (
+                <tr key={item.id ?? `${item.timestamp}-${index}-${item.ip}`} onClick={() => setSelected(item)}>
+                  <td>{new Date(item.timestamp).toLocaleTimeString()}</td>
+                  <td>{item.endpoint}</td>
+                  <td>{item.method}</td>
+                  <td>{item.realIp ?? item.headers?.["x-real-ip"] ?? item.ip ?? 'N/A'}</td>
+                  <td>{item.statusCode ?? 'N/A'}</td>
+                  <td>{item.isBot ? 'Bot' : 'Human'}</td>
+                  <td className="ua" title={item.userAgent}>{item.userAgent}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="pager">
+        <button onClick={() => setCursorStack([null])} disabled={onFirstPage}>Newest</button>
+        <button onClick={() => setCursorStack(prev => prev.slice(0, -1))} disabled={onFirstPage}>Newer</button>
+        <span>Page {cursorStack.length}</span>
+        <button onClick={() => nextCursor && setCursorStack(prev => [...prev, nextCursor])} disabled={!nextCursor}>Older</button>
+        <select
+          value={pageSize}
+          onChange={(e) => { setPageSize(Number(e.target.value)); setCursorStack([null]); }}
+          aria-label="Page size"
+        >
+          {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size} per page</option>)}
+        </select>
+      </div>
+
+      <RequestDetailDrawer log={selected} onClose={() => setSelected(null)} />
+
+      <style jsx>{`
+        .filters { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 15px; }
+        .filters input, .filters select { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; }
+        .filters button, .pager button { padding: 6px 12px; border-radius: 4px; border: 1px solid #ddd; background: #fff; cursor: pointer; }
+        .filters button[type="submit"] { background: #0070f3; border-color: #0070f3; color: white; }
+        .pager button:disabled { color: #999; cursor: not-allowed; }
+        .traffic-table { width: 100%; overflow-x: auto; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; white-space: nowrap; }
+        th { background-color: #f5f5f5; font-weight: bold; }
+        tbody tr { cursor: pointer; }
+        tr:nth-child(even) { background-color: #f9f9f9; }
+        tr:hover { background-color: #f0f0f0; }
+        .ua { max-width: 280px; overflow: hidden; text-overflow: ellipsis; }
+        .pager { display: flex; align-items: center; gap: 10px; margin-top: 15px; }
+        .pager select { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; margin-left: auto; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default RequestExplorer;
@@ -0,0 +1,162 @@
+// src/components/ResetPasswordForm.tsx
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+// Without a token in the URL this asks for an email; with one (from the emailed link) it sets the new password
+const ResetPasswordForm: React.FC = () => {
+  const [token, setToken] = useState<string | null>(null);
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(token ? { token, password } : { email }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Something went wrong');
+      }
+
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="reset-form">
+      <h1>{token ? 'Choose a New Password' : 'Reset Your Password'}</h1>
+
+      {error && <div className="error">{error}</div>}
+      {message && <div className="success">{message}</div>}
+
+      <form onSubmit={handleSubmit}>
+        {token ? (
+          <div className="form-group">
+            <label htmlFor="password">New password</label>
+            <input
+              type="password"
+              id="password"
+              name="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={8}
+              required
+            />
+          </div>
+        ) : (
+          <div className="form-group">
+            <label htmlFor="email">Email</label>
+            <input
+              type="email"
+              id="email"
+              name="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+        )}
+
+        <button type="submit" disabled={loading}>
+          {loading ? 'Please wait...' : token ? 'Set Password' : 'Send Reset Link'}
+        </button>
+      </form>
+
+      <p className="links">
+        <Link href="/login">Back to login</Link>
+        {!token && <> · <Link href="/outbox">View outbox</Link></>}
+      </p>
+
+      <style jsx>{`
+        .reset-form {
+          max-width: 400px;
+          margin: 0 auto;
+          padding: 20px;
+          border: 1px solid #ddd;
+          border-radius: 5px;
+        }
+
+        .form-group {
+          margin-bottom: 15px;
+        }
+
+        label {
+          display: block;
+          margin-bottom: 5px;
+          font-weight: bold;
+        }
+
+        input {
+          width: 100%;
+          padding: 8px;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        button {
+          width: 100%;
+          padding: 10px;
+          background-color: #0070f3;
+          color: white;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
+        button:hover {
+          background-color: #0060df;
+        }
+
+        button:disabled {
+          background-color: #ccc;
+          cursor: not-allowed;
+        }
+
+        .error {
+          color: red;
+          margin-bottom: 15px;
+          padding: 10px;
+          background-color: #ffebee;
+          border-radius: 4px;
+        }
+
+        .success {
+          color: #2e7d32;
+          margin-bottom: 15px;
+          padding: 10px;
+          background-color: #e8f5e9;
+          border-radius: 4px;
+        }
+
+        .links {
+          margin-top: 20px;
+          text-align: center;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
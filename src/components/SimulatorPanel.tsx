@@ -0,0 +1,138 @@
+// src/components/SimulatorPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SimRun, SimScenarioName, SimSettings } from '@/utils/traffic-sim';
+
+const POLLING_INTERVAL_MS = 2000; // Runs last seconds to minutes, so keep their progress fresh
+
+interface ScenarioInfo {
+  name: SimScenarioName;
+  description: string;
+  defaults: SimSettings;
+}
+
+interface SimResponse {
+  enabled: boolean;
+  scenarios: ScenarioInfo[];
+  runs: SimRun[];
+}
+
+// Start built-in bot and human traffic scenarios against this app (/api/sim)
+const SimulatorPanel: React.FC = () => {
+  const [data, setData] = useState<SimResponse | null>(null);
+  const [scenario, setScenario] = useState<SimScenarioName>('credential-stuffing');
+  const [requests, setRequests] = useState<string>('');
+  const [rate, setRate] = useState<string>('');
+  const [concurrency, setConcurrency] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sim');
+      if (!response.ok) {
+        throw new Error(`Simulator API error! status: ${response.status}`);
+      }
+      setData(await response.json());
+    } catch (err) {
+      console.error(`Error fetching simulator runs:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+    const timer = setInterval(fetchRuns, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchRuns]);
+
+  const send = async (init: RequestInit, url = '/api/sim') => {
+    try {
+      const response = await fetch(url, init);
+      const body = await response.json();
+      setError(response.ok ? null : body.message || `Simulator API error! status: ${response.status}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    }
+    fetchRuns();
+  };
+
+  const start = () => send({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      scenario,
+      // Blank fields keep the scenario's defaults
+      requests: requests ? Number(requests) : undefined,
+      ratePerSecond: rate ? Number(rate) : undefined,
+      concurrency: concurrency ? Number(concurrency) : undefined,
+    }),
+  });
+
+  const stop = (id: string) => send({ method: 'DELETE' }, `/api/sim?id=${id}`);
+
+  const defaults = data?.scenarios.find(s => s.name === scenario)?.defaults;
+
+  return (
+    <div className="simulator">
+      {data && !data.enabled && <p className="note">Disabled in production; set SIM_ENABLED=true to allow runs.</p>}
+
+      <div className="controls">
+        <select value={scenario} onChange={(e) => setScenario(e.target.value as SimScenarioName)} aria-label="Scenario">
+          {data?.scenarios.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+        </select>
+        <input type="number" min={1} placeholder={`Requests (${defaults?.requests ?? ''})`} value={requests} onChange={(e) => setRequests(e.target.value)} />
+        <input type="number" min={1} placeholder={`Per second (${defaults?.ratePerSecond ?? ''})`} value={rate} onChange={(e) => setRate(e.target.value)} />
+        <input type="number" min={1} placeholder={`Clients (${defaults?.concurrency ?? ''})`} value={concurrency} onChange={(e) => setConcurrency(e.target.value)} />
+        <button onClick={start} disabled={!data?.enabled}>Start</button>
+      </div>
+      <p className="note">{data?.scenarios.find(s => s.name === scenario)?.description}</p>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {data && data.runs.length > 0 && (
+        <table>
+          <thead>
+            <tr>
+              <th>Started</th>
+              <th>Scenario</th>
+              <th>Status</th>
+              <th>Sent</th>
+              <th>Responses</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.runs.map(run => (
+              <tr key={run.id}>
+                <td>{new Date(run.startedAt).toLocaleTimeString()}</td>
+                <td>{run.scenario}</td>
+                <td>{run.status}{run.error ? `: ${run.error}` : ''}</td>
+                <td>{run.report?.sent ?? 0} / {run.settings.requests}</td>
+                <td className="mono">
+                  {run.report ? Object.entries(run.report.byStatus).map(([status, count]) => `${status}×${count}`).join(' ') : '-'}
+                </td>
+                <td>{run.status === 'running' && <button onClick={() => stop(run.id)}>Stop</button>}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <style jsx>{`
+        .controls { display: flex; flex-wrap: wrap; gap: 10px; margin-bottom: 10px; }
+        .controls select, .controls input { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; }
+        .controls input { width: 130px; }
+        .controls button { padding: 6px 12px; border-radius: 4px; border: 1px solid #0070f3; background: #0070f3; color: white; cursor: pointer; }
+        .controls button:disabled { background: #ccc; border-color: #ccc; cursor: not-allowed; }
+        .note { color: #666; font-size: 13px; margin: 0 0 15px; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; white-space: nowrap; }
+        th { background-color: #f5f5f5; font-weight: bold; }
+        td button { padding: 4px 10px; border-radius: 4px; border: 1px solid #c62828; background: white; color: #c62828; cursor: pointer; }
+        .mono { font-family: monospace; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default SimulatorPanel;
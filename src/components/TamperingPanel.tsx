@@ -0,0 +1,131 @@
+// src/components/TamperingPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import type { TamperingStats } from '@/utils/traffic-analytics';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh every 15 seconds
+const WINDOW_OPTIONS = [
+  { minutes: 5, label: 'Last 5 min' },
+  { minutes: 15, label: 'Last 15 min' },
+  { minutes: 30, label: 'Last 30 min' },
+];
+
+// Claimed prices are whatever the client sent, so they may not be numbers
+const formatPrice = (price: unknown): string =>
+  typeof price === 'number' ? `$${price.toFixed(2)}` : JSON.stringify(price) ?? String(price);
+
+// Checkouts rejected because the cart's prices did not match the catalog
+const TamperingPanel: React.FC = () => {
+  const [windowMinutes, setWindowMinutes] = useState<number>(30);
+  const [stats, setStats] = useState<TamperingStats | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/traffic/tampering?timeWindow=${windowMinutes}`);
+      if (!response.ok) {
+        throw new Error(`Tampering API error! status: ${response.status}`);
+      }
+      setStats(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching tampering stats:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [windowMinutes]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchStats();
+    const timer = setInterval(fetchStats, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchStats]);
+
+  return (
+    <div className="tampering">
+      <div className="controls">
+        <select value={windowMinutes} onChange={(e) => setWindowMinutes(Number(e.target.value))} aria-label="Window">
+          {WINDOW_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {loading || !stats ? (
+        <p>Loading tampering attempts...</p>
+      ) : stats.attempts === 0 ? (
+        <p>No price manipulation attempts in this window.</p>
+      ) : (
+        <>
+          <div className="tiles">
+            <div className="tile warn">
+              <strong>{stats.attempts}</strong>
+              <span>Checkouts with altered prices</span>
+            </div>
+            <div className="tile">
+              <strong>{stats.bots}</strong>
+              <span>Flagged as bots</span>
+            </div>
+            <div className="tile">
+              <strong>{stats.accounts}</strong>
+              <span>Accounts</span>
+            </div>
+            <div className="tile">
+              <strong>{stats.ips}</strong>
+              <span>IP addresses</span>
+            </div>
+          </div>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Account</th>
+                <th>IP Address</th>
+                <th>Type</th>
+                <th>Altered Lines</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.recent.map((attempt, index) => (
+                <tr key={attempt.id ?? index} className={attempt.isBot ? 'bot' : ''}>
+                  <td>{new Date(attempt.timestamp).toLocaleTimeString()}</td>
+                  <td>{attempt.account ?? '-'}</td>
+                  <td className="mono">{attempt.ip}</td>
+                  <td>{attempt.isBot ? 'Bot' : 'Human'}</td>
+                  <td>
+                    {attempt.tampering.map(line => (
+                      <div key={line.productId}>
+                        Product {line.productId}: {formatPrice(line.claimedPrice)} (catalog {formatPrice(line.catalogPrice)})
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <style jsx>{`
+        .controls { display: flex; justify-content: flex-end; margin-bottom: 15px; }
+        .controls select { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; }
+        .tiles { display: grid; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); gap: 15px; margin-bottom: 15px; }
+        .tile { display: flex; flex-direction: column; gap: 5px; padding: 15px; border: 1px solid #ddd; border-radius: 6px; background: #fafafa; }
+        .tile strong { font-size: 24px; color: #333; }
+        .tile span { font-size: 13px; color: #666; }
+        .tile.warn strong { color: #c62828; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; vertical-align: top; }
+        th { background-color: #f5f5f5; font-weight: bold; }
+        tr.bot { background-color: #fff3f3; }
+        .mono { font-family: monospace; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default TamperingPanel;
@@ -0,0 +1,132 @@
+// src/components/TopTalkersPanel.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import type { TalkerDimension, TalkerStat, TopTalkers } from '@/utils/traffic-analytics';
+
+const POLLING_INTERVAL_MS = 15000; // Refresh every 15 seconds
+const ROW_LIMIT = 10;
+// Logs are only retained for 30 minutes, so longer windows would show the same data
+const WINDOW_OPTIONS = [
+  { minutes: 5, label: 'Last 5 min' },
+  { minutes: 15, label: 'Last 15 min' },
+  { minutes: 30, label: 'Last 30 min' },
+];
+const DIMENSIONS: { value: TalkerDimension; label: string }[] = [
+  { value: 'ip', label: 'IP Address' },
+  { value: 'userAgent', label: 'User Agent' },
+  { value: 'country', label: 'Country' },
+  { value: 'classification', label: 'Kasada Classification' },
+];
+
+const TopTalkersPanel: React.FC = () => {
+  const [windowMinutes, setWindowMinutes] = useState<number>(15);
+  const [dimension, setDimension] = useState<TalkerDimension>('ip');
+  const [data, setData] = useState<TopTalkers | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTopTalkers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/traffic/top-talkers?timeWindow=${windowMinutes}&limit=${ROW_LIMIT}`);
+      if (!response.ok) {
+        throw new Error(`Top talkers API error! status: ${response.status}`);
+      }
+      setData(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching top talkers:`, err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [windowMinutes]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTopTalkers();
+    const timer = setInterval(fetchTopTalkers, POLLING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchTopTalkers]);
+
+  const rows: TalkerStat[] = data?.dimensions[dimension] ?? [];
+  const dimensionLabel = DIMENSIONS.find(d => d.value === dimension)?.label;
+
+  return (
+    <div className="top-talkers">
+      <div className="controls">
+        <div className="tabs" role="tablist">
+          {DIMENSIONS.map(d => (
+            <button
+              key={d.value}
+              role="tab"
+              aria-selected={dimension === d.value}
+              className={dimension === d.value ? 'active' : ''}
+              onClick={() => setDimension(d.value)}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+        <select value={windowMinutes} onChange={(e) => setWindowMinutes(Number(e.target.value))} aria-label="Window">
+          {WINDOW_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {loading ? (
+        <p>Loading top talkers...</p>
+      ) : rows.length === 0 ? (
+        <p>No requests in this window.</p>
+      ) : (
+        <div className="talkers-table">
+          <table>
+            <thead>
+              <tr>
+                <th>{dimensionLabel}</th>
+                <th>Requests</th>
+                <th>Share</th>
+                <th>Failures</th>
+                <th>Bots</th>
+                <th>First Seen</th>
+                <th>Last Seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td className="key" title={row.key}>{row.key}</td>
+                  <td>{row.requests}</td>
+                  <td>{data && data.totalRequests > 0 ? `${Math.round((row.requests / data.totalRequests) * 100)}%` : '-'}</td>
+                  <td className={row.failureRatio >= 0.5 ? 'high' : ''}>
+                    {row.failures} ({Math.round(row.failureRatio * 100)}%)
+                  </td>
+                  <td>{row.bots}</td>
+                  <td>{new Date(row.firstSeen).toLocaleTimeString()}</td>
+                  <td>{new Date(row.lastSeen).toLocaleTimeString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <style jsx>{`
+        .controls { display: flex; flex-wrap: wrap; justify-content: space-between; align-items: center; gap: 10px; margin-bottom: 15px; }
+        .tabs { display: flex; flex-wrap: wrap; gap: 6px; }
+        .tabs button { padding: 6px 12px; border-radius: 4px; border: 1px solid #ddd; background: #fff; cursor: pointer; }
+        .tabs button.active { background: #0070f3; border-color: #0070f3; color: white; }
+        .controls select { padding: 6px 8px; border-radius: 4px; border: 1px solid #ddd; }
+        .talkers-table { width: 100%; overflow-x: auto; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; white-space: nowrap; }
+        th { background-color: #f5f5f5; font-weight: bold; }
+        tr:nth-child(even) { background-color: #f9f9f9; }
+        .key { max-width: 320px; overflow: hidden; text-overflow: ellipsis; font-family: monospace; }
+        .high { color: #c62828; font-weight: bold; }
+        .error-message { color: red; border: 1px solid red; padding: 10px; border-radius: 4px; margin-bottom: 15px; }
+      `}</style>
+    </div>
+  );
+};
+
+export default TopTalkersPanel;
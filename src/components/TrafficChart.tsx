@@ -10,6 +10,7 @@ import {
   Title,
   Tooltip,
   Legend,
+  Filler, // Needed for filled / stacked areas
   TimeScale, // Import TimeScale
   TimeSeriesScale // Import TimeSeriesScale
 } from 'chart.js';
@@ -26,6 +27,7 @@ ChartJS.register(
   Title,
   Tooltip,
   Legend,
+  Filler,
   TimeScale,        // Register TimeScale
   TimeSeriesScale   // Register TimeSeriesScale
 );
@@ -34,14 +36,30 @@ ChartJS.register(
 interface AggregatedDataPoint {
     timestamp: number; // Unix timestamp (seconds)
     count: number;
+    segments?: Record<string, number>; // e.g. { 'human:2xx': 12, 'bot:4xx': 40 }
 }
 
+// Stacking order and colours (RGB triples) for bot/human x status class segments
+const SEGMENT_STYLES: { key: string; label: string; color: string }[] = [
+  { key: 'human:2xx', label: 'Human 2xx', color: '75, 192, 120' },
+  { key: 'human:3xx', label: 'Human 3xx', color: '54, 162, 235' },
+  { key: 'human:4xx', label: 'Human 4xx', color: '255, 205, 86' },
+  { key: 'human:5xx', label: 'Human 5xx', color: '255, 159, 64' },
+  { key: 'human:limited', label: 'Human rate-limited', color: '0, 150, 136' },
+  { key: 'bot:2xx', label: 'Bot 2xx', color: '255, 99, 132' },
+  { key: 'bot:3xx', label: 'Bot 3xx', color: '201, 203, 207' },
+  { key: 'bot:4xx', label: 'Bot 4xx (blocked)', color: '153, 102, 255' },
+  { key: 'bot:5xx', label: 'Bot 5xx', color: '120, 40, 40' },
+  { key: 'bot:limited', label: 'Bot rate-limited', color: '63, 81, 181' },
+];
+
 interface TrafficChartProps {
   aggregatedData: AggregatedDataPoint[];
-  label: string; // e.g., "Logins" or "Checkouts"
+  label: string; // e.g., "/api/auth/login"
+  color?: string; // RGB triple, e.g. "75, 192, 192"
 }
 
-const TrafficChart: React.FC<TrafficChartProps> = ({ aggregatedData, label }) => {
+const TrafficChart: React.FC<TrafficChartProps> = ({ aggregatedData, label, color = '75, 192, 192' }) => {
 
   // Process aggregated data for the chart
   const chartData = useMemo(() => {
@@ -50,30 +68,43 @@ const TrafficChart: React.FC<TrafficChartProps> = ({ aggregatedData, label }) =>
         return { labels: [], datasets: [] };
     }
 
-    // Convert timestamps (seconds) to milliseconds for chart.js
-    const labels = aggregatedData.map(d => d.timestamp * 1000);
-    const dataPoints = aggregatedData.map(d => d.count);
+    // Segments that actually appear in the window, in stacking order
+    const presentSegments = SEGMENT_STYLES.filter(style =>
+      aggregatedData.some(d => (d.segments?.[style.key] ?? 0) > 0)
+    );
 
-    // Find the min and max timestamp for setting scale bounds
-    const timestamps = aggregatedData.map(d => d.timestamp * 1000);
-    const minTimestamp = Math.min(...timestamps);
-    const maxTimestamp = Math.max(...timestamps);
+    if (presentSegments.length === 0) {
+      // No breakdown available: single total series
+      return {
+        datasets: [{
+          label: label, // Use the passed label
+          // Data format for TimeScale: { x: timestamp, y: value }
+          data: aggregatedData.map(d => ({ x: d.timestamp * 1000, y: d.count })),
+          fill: true,
+          backgroundColor: `rgba(${color}, 0.2)`,
+          borderColor: `rgba(${color}, 1)`,
+          tension: 0.1, // Less tension for potentially fewer points
+          pointRadius: 2, // Smaller points
+          pointHoverRadius: 4,
+        }]
+      };
+    }
 
+    // Stacked area per segment so blocked bots and successful humans show side by side
     return {
-      // labels: labels, // Use timestamps directly on x-axis for TimeScale
-      datasets: [{
-        label: label, // Use the passed label
-        // Data format for TimeScale: { x: timestamp, y: value }
-        data: aggregatedData.map(d => ({ x: d.timestamp * 1000, y: d.count })),
-        fill: true,
-        backgroundColor: label === 'Logins' ? 'rgba(75, 192, 192, 0.2)' : 'rgba(255, 159, 64, 0.2)',
-        borderColor: label === 'Logins' ? 'rgba(75, 192, 192, 1)' : 'rgba(255, 159, 64, 1)',
-        tension: 0.1, // Less tension for potentially fewer points
-        pointRadius: 2, // Smaller points
+      datasets: presentSegments.map((style, index) => ({
+        label: style.label,
+        data: aggregatedData.map(d => ({ x: d.timestamp * 1000, y: d.segments?.[style.key] ?? 0 })),
+        fill: index === 0 ? 'origin' : '-1',
+        stack: 'traffic',
+        backgroundColor: `rgba(${style.color}, 0.5)`,
+        borderColor: `rgba(${style.color}, 1)`,
+        tension: 0.1,
+        pointRadius: 1,
         pointHoverRadius: 4,
-      }]
+      }))
     };
-  }, [aggregatedData, label]);
+  }, [aggregatedData, label, color]);
 
   // Chart options using TimeScale
   const chartOptions = useMemo(() => {
@@ -81,6 +112,11 @@ const TrafficChart: React.FC<TrafficChartProps> = ({ aggregatedData, label }) =>
     const timestamps = aggregatedData.map(d => d.timestamp * 1000);
     const minTimestamp = timestamps.length > 0 ? Math.min(...timestamps) : Date.now() - 600000; // Fallback: 10 min ago
     const maxTimestamp = timestamps.length > 0 ? Math.max(...timestamps) : Date.now();         // Fallback: now
+    // Coarser axis units for long (rolled-up) windows
+    const spanMs = maxTimestamp - minTimestamp;
+    const unit = spanMs > 2 * 24 * 60 * 60 * 1000 ? 'day' as const
+      : spanMs > 3 * 60 * 60 * 1000 ? 'hour' as const
+      : 'minute' as const;
 
      return {
         responsive: true,
@@ -89,9 +125,11 @@ const TrafficChart: React.FC<TrafficChartProps> = ({ aggregatedData, label }) =>
           x: {
             type: 'time' as const, // Specify the scale type
             time: {
-              unit: 'minute' as const, // Display unit
+              unit, // Display unit
               tooltipFormat: 'PPpp', // Format for tooltips (e.g., Apr 30, 2025, 3:45:00 PM)
               displayFormats: {
+                day: 'MMM d',
+                hour: 'HH:mm',
                 minute: 'HH:mm', // Display format on the axis
                 second: 'HH:mm:ss' // Add if using second-level granularity
               },
@@ -104,6 +142,7 @@ const TrafficChart: React.FC<TrafficChartProps> = ({ aggregatedData, label }) =>
             max: maxTimestamp,
           },
           y: {
+            stacked: true,
             beginAtZero: true,
             min: 0,
             suggestedMax: Math.max(5, ...aggregatedData.map(d => d.count)) + 1, // Dynamic suggested max
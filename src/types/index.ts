@@ -3,18 +3,32 @@
 // Product types
 export interface Product {
   id: number;
+  sku: string;
   name: string;
   price: number;
   description: string;
   imageUrl?: string;
   quantity?: number;
+  stock: number; // Units left, as of when the catalog was read
+  limitedDrop?: {
+    perAccountLimit: number; // Units one account may buy per drop (each restock starts a new drop)
+  };
 }
 
 // User types
+export type UserRole = 'admin' | 'customer';
+
 export interface User {
   id: number;
   name: string;
   email: string;
+  role: UserRole;
+}
+
+// A user as persisted by the UserStore (never sent to the client)
+export interface StoredUser extends User {
+  passwordHash: string; // `scrypt$<salt>$<hash>`, both base64
+  createdAt: string;
 }
 
 // Cart types
@@ -22,21 +36,103 @@ export interface CartItem extends Product {
   quantity: number;
 }
 
+// A cart as served by /api/cart, priced from the catalog
+export interface Cart {
+  items: CartItem[];  // One line per product
+  itemCount: number;  // Sum of quantities
+  total: number;
+}
+
+// CAPTCHA types
+export type CaptchaProviderKind = 'turnstile' | 'hcaptcha' | 'recaptcha' | 'mock';
+export type CaptchaOutcome = 'pass' | 'fail' | 'timeout' | 'error';
+
+// One server-side token verification, as recorded on the traffic log
+export interface CaptchaCheck {
+  provider: CaptchaProviderKind;
+  outcome: CaptchaOutcome;
+  latencyMs: number; // Time spent waiting on the provider
+}
+
+// An outbound call made while handling a request, e.g. CAPTCHA siteverify
+export interface UpstreamCall {
+  name: string;       // e.g. 'captcha:turnstile'
+  durationMs: number;
+  outcome?: string;   // e.g. 'pass', 'timeout'
+}
+
+// Adaptive login challenge types
+export type LoginRiskDecision = 'allow' | 'challenge';
+
+// Points each signal added to a login's risk score
+export interface LoginRiskSignals {
+  classification: number; // Kasada classification header
+  recentFailures: number; // Failed logins from the same IP
+  velocity: number;       // Login attempts from the same IP in the last minute
+}
+
+export interface LoginRisk {
+  score: number;     // 0-100
+  threshold: number; // Scores at or above this are challenged
+  decision: LoginRiskDecision;
+  signals: LoginRiskSignals;
+}
+
+// A cart line whose price did not match the catalog at checkout
+export interface PriceTampering {
+  productId: number;
+  claimedPrice: unknown; // As sent by the client
+  catalogPrice: number;
+}
+
 // Traffic log types
 export interface TrafficLog {
+  id?: string; // Unique per entry; missing on entries logged before ids existed
   timestamp: string;
   endpoint: string;
+  url?: string; // Path and query as requested (`endpoint` may be a route pattern); missing on older entries
   method: string;
   ip: string;
   realIp?: string; // Add this new field
   userAgent: string;
   isBot: boolean;
   statusCode?: number;
+  account?: string; // Email submitted to auth endpoints, if any. Kept in the clear (unlike emails in `body`): alerts, lockout and the admin dashboard name the targeted account
+  reason?: string;  // Why the route answered as it did, e.g. 'rate-limit:ip'
+  captcha?: CaptchaCheck; // Set by routes that verify a CAPTCHA token
+  risk?: LoginRisk;       // Set by the adaptive login route
+  tampering?: PriceTampering[]; // Set by checkout when cart prices were altered
+  body?: unknown;   // Redacted JSON body, when body capture is on (TRAFFIC_BODY_CAPTURE)
+  durationMs?: number;      // Handler time, set for routes wrapped in withTrafficTiming
+  responseBytes?: number;   // Size of the response body (same routes)
+  upstream?: UpstreamCall[]; // Outbound calls the handler made (same routes)
   headers: {
     [key: string]: string | string[] | undefined;
   };
 }
 
+// Traffic alert types
+export type TrafficAlertRule = 'many-accounts-per-ip' | 'high-failure-ratio' | 'many-ips-per-account';
+
+export interface TrafficAlert {
+  id: string;
+  rule: TrafficAlertRule;
+  subject: string;          // The IP or account the alert is about
+  severity: 'medium' | 'high';
+  summary: string;
+  raisedAt: string;         // When the alert was first raised
+  updatedAt: string;        // When the evidence was last refreshed
+  evidence: {
+    windowStart: string;    // Detection window the counts cover
+    windowEnd: string;
+    attempts: number;
+    failures: number;
+    distinctAccounts: number;
+    distinctIps: number;
+    samples: Pick<TrafficLog, 'id' | 'timestamp' | 'endpoint' | 'ip' | 'account' | 'statusCode' | 'userAgent' | 'isBot'>[];
+  };
+}
+
 // Checkout types
 export interface ShippingAddress {
   name: string;
@@ -48,12 +144,23 @@ export interface ShippingAddress {
   country: string;
 }
 
+// The checkout request an order came from (shown to admins only)
+export interface OrderOrigin {
+  ip: string;
+  userAgent: string;
+  isBot: boolean;
+  classification?: string; // Raw x-kasada-classification header
+  logId?: string;          // Traffic log entry of the checkout request
+}
+
 export interface Order {
   id: string;
+  account: string; // Email of the user who placed it
   items: CartItem[];
   shippingAddress: ShippingAddress;
   paymentMethod: string;
   total: number;
   status: string;
   createdAt: string;
+  origin?: OrderOrigin;
 }
@@ -0,0 +1,64 @@
+// src/utils/account-lockout.test.ts
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryTrafficStore, setTrafficStore } from './traffic-store';
+import { clearLockout, getLockedUntil, LOCKOUT_POLICY, recordLoginFailure } from './account-lockout';
+
+setTrafficStore(new MemoryTrafficStore());
+
+let now = Date.parse('2026-01-01T00:00:00.000Z');
+mock.method(Date, 'now', () => now);
+
+let accountCounter = 0;
+const freshAccount = () => `lockout-${++accountCounter}@example.com`;
+
+// Fail `count` logins a second apart; returns what the last one reported
+const failLogins = async (email: string, count: number): Promise<number | null> => {
+  let result: number | null = null;
+  for (let i = 0; i < count; i++) {
+    result = await recordLoginFailure(email);
+    now += 1000;
+  }
+  return result;
+};
+
+test('an account locks on the failure that reaches maxFailures', async () => {
+  const email = freshAccount();
+  assert.equal(await failLogins(email, LOCKOUT_POLICY.maxFailures - 1), null);
+  assert.equal(await getLockedUntil(email), null);
+
+  const lockedAt = now;
+  const lockedUntil = await recordLoginFailure(email);
+  assert.equal(lockedUntil, lockedAt + LOCKOUT_POLICY.lockSeconds * 1000);
+  // Same account, any capitalisation
+  assert.equal(await getLockedUntil(email.toUpperCase()), lockedUntil);
+});
+
+test('a lock expires and counting starts again from the lock', async () => {
+  const email = freshAccount();
+  const lockedUntil = await failLogins(email, LOCKOUT_POLICY.maxFailures);
+  assert.ok(lockedUntil);
+
+  now = lockedUntil;
+  assert.equal(await getLockedUntil(email), null);
+  // The failures that caused the lock no longer count
+  assert.equal(await failLogins(email, LOCKOUT_POLICY.maxFailures - 1), null);
+  assert.ok(await recordLoginFailure(email));
+});
+
+test('failures older than the window do not count', async () => {
+  const email = freshAccount();
+  await failLogins(email, LOCKOUT_POLICY.maxFailures - 1);
+  now += LOCKOUT_POLICY.windowSeconds * 1000;
+  assert.equal(await recordLoginFailure(email), null);
+});
+
+test('clearLockout unlocks the account and forgets earlier failures', async () => {
+  const email = freshAccount();
+  await failLogins(email, LOCKOUT_POLICY.maxFailures);
+  assert.ok(await getLockedUntil(email));
+
+  await clearLockout(email);
+  assert.equal(await getLockedUntil(email), null);
+  assert.equal(await failLogins(email, LOCKOUT_POLICY.maxFailures - 1), null);
+});
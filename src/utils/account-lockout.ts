@@ -0,0 +1,62 @@
+// src/utils/account-lockout.ts
+import { getTrafficStore } from './traffic-store';
+import { normalizeEmail } from './user-store';
+
+// Lock an account after `maxFailures` failed logins within `windowSeconds`, for `lockSeconds`
+export const LOCKOUT_POLICY = {
+  maxFailures: 5,
+  windowSeconds: 15 * 60,
+  lockSeconds: 15 * 60,
+};
+
+const LOCKOUT_NAMESPACE = 'lockout';
+
+// Failures are hits on a per-account sliding window (the same atomic primitive the rate limits use),
+// so parallel failed logins cannot overwrite each other's counts. The record only holds the lock
+// and when the current count started, as a lock or a successful login starts a fresh one.
+interface LockoutState {
+  lockedUntil: number | null; // Timestamp (ms)
+  countFrom: number;          // Timestamp (ms); earlier failures no longer count
+}
+
+const recordTtl = () => Math.max(LOCKOUT_POLICY.windowSeconds, LOCKOUT_POLICY.lockSeconds);
+const failureKey = (email: string) => `${LOCKOUT_NAMESPACE}:${normalizeEmail(email)}`;
+
+/**
+ * When the account's lock ends (ms), or null if it is not locked.
+ */
+export async function getLockedUntil(email: string): Promise<number | null> {
+  const state = await getTrafficStore().getRecord<LockoutState>(LOCKOUT_NAMESPACE, normalizeEmail(email));
+  return state?.lockedUntil && state.lockedUntil > Date.now() ? state.lockedUntil : null;
+}
+
+/**
+ * Count a failed login against the account, locking it once the policy is exceeded.
+ * Returns when the lock ends (ms) if this failure locked the account, otherwise null.
+ */
+export async function recordLoginFailure(email: string): Promise<number | null> {
+  const store = getTrafficStore();
+  const now = Date.now();
+  const hits = await store.recordRateLimitHit(failureKey(email), now, LOCKOUT_POLICY.windowSeconds);
+  const state = await store.getRecord<LockoutState>(LOCKOUT_NAMESPACE, normalizeEmail(email));
+
+  const failures = hits.filter(ts => ts > (state?.countFrom ?? 0));
+  if (failures.length < LOCKOUT_POLICY.maxFailures) return null;
+  if (state?.lockedUntil && state.lockedUntil > now) return null; // Locked by a concurrent failure
+
+  const lockedUntil = now + LOCKOUT_POLICY.lockSeconds * 1000;
+  await store.putRecord<LockoutState>(LOCKOUT_NAMESPACE, normalizeEmail(email), { lockedUntil, countFrom: now }, recordTtl());
+  return lockedUntil;
+}
+
+/**
+ * Forget failures and any lock (successful login or password reset).
+ */
+export async function clearLockout(email: string): Promise<void> {
+  await getTrafficStore().putRecord<LockoutState>(
+    LOCKOUT_NAMESPACE,
+    normalizeEmail(email),
+    { lockedUntil: null, countFrom: Date.now() },
+    recordTtl()
+  );
+}
@@ -0,0 +1,64 @@
+// src/utils/body-redaction.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DROPPED, hashEmail, REDACTED, redactBody } from './body-redaction';
+
+const VISA_TEST_NUMBER = '4111 1111 1111 1111';
+
+test('redactBody drops credentials and card numbers wherever they appear', () => {
+  const body = {
+    email: 'shopper@example.com',
+    password: 'hunter2',
+    resetToken: 'abc',
+    paymentMethod: 'card',
+    note: VISA_TEST_NUMBER, // Not a card field, but a valid card number
+    items: [{ id: 3, quantity: 1, price: 149.99 }],
+  };
+
+  assert.deepEqual(redactBody(body), {
+    email: hashEmail('shopper@example.com'),
+    password: DROPPED,
+    resetToken: DROPPED,
+    paymentMethod: 'card',
+    note: DROPPED,
+    items: [{ id: 3, quantity: 1, price: 149.99 }],
+  });
+});
+
+test('redactBody only treats Luhn-valid strings as card numbers', () => {
+  // Same length as a card number, but the check digit is wrong
+  assert.deepEqual(redactBody({ paymentMethod: '4111111111111112' }), { paymentMethod: '4111111111111112' });
+  assert.deepEqual(redactBody({ paymentMethod: '4111-1111-1111-1111' }), { paymentMethod: DROPPED });
+  // Numbers are not card numbers; outside the allowlist they are redacted like any value
+  assert.deepEqual(redactBody({ quantity: 4111111111111111, orderRef: 4111111111111111 }), { quantity: 4111111111111111, orderRef: REDACTED });
+});
+
+test('redactBody keeps allowlisted paths and redacts the rest', () => {
+  const body = {
+    shippingAddress: { name: 'Ada Lovelace', address: '1 Main St', city: 'Springfield', country: 'United States' },
+    items: [{ id: 1, name: 'Headphones', description: 'Wireless' }],
+    nested: { productId: 7 }, // Allowlisted at the top level only
+  };
+
+  assert.deepEqual(redactBody(body), {
+    shippingAddress: { name: REDACTED, address: REDACTED, city: 'Springfield', country: 'United States' },
+    items: [{ id: 1, name: 'Headphones', description: REDACTED }],
+    nested: { productId: REDACTED },
+  });
+});
+
+test('hashEmail is keyed, stable and ignores case and whitespace', () => {
+  assert.equal(hashEmail(' Shopper@Example.com '), hashEmail('shopper@example.com'));
+  assert.notEqual(hashEmail('shopper@example.com'), hashEmail('other@example.com'));
+  assert.match(hashEmail('shopper@example.com'), /^hmac:[0-9a-f]{16}$/);
+
+  const previous = process.env.LOG_HASH_SECRET;
+  const unkeyed = hashEmail('shopper@example.com');
+  process.env.LOG_HASH_SECRET = 'another-secret';
+  try {
+    assert.notEqual(hashEmail('shopper@example.com'), unkeyed);
+  } finally {
+    if (previous === undefined) delete process.env.LOG_HASH_SECRET;
+    else process.env.LOG_HASH_SECRET = previous;
+  }
+});
@@ -0,0 +1,100 @@
+// src/utils/body-redaction.ts
+import crypto from 'crypto';
+
+// What survives of a request body once it is logged. Fields matching `drop` never reach the
+// log; strings that look like emails are hashed wherever they appear; other values are only
+// kept at `allow` paths (`a.b` for nested fields, `a[].b` for fields of array elements) and
+// replaced with a placeholder everywhere else, so the body's shape is still visible.
+// A log's `account` field is not covered: it keeps the submitted email so alerts and the
+// admin-only dashboard can name the account under attack.
+export const BODY_REDACTION_POLICY = {
+  drop: [/password/i, /card.?number/i, /^pan$/i, /cvv|cvc/i, /card.?expiry/i, /token/i],
+  allow: [
+    'productId',
+    'quantity',
+    'items[].id',
+    'items[].name',
+    'items[].price',
+    'items[].quantity',
+    'paymentMethod',
+    'shippingAddress.city',
+    'shippingAddress.state',
+    'shippingAddress.country',
+  ],
+};
+
+export const DROPPED = '[dropped]';
+export const REDACTED = '[redacted]';
+const MAX_ARRAY_ITEMS = 50;   // Longer arrays keep their first 50 elements
+const MAX_DEPTH = 6;
+const MAX_STRING_LENGTH = 200; // Allowed strings are cut to this length
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CARD_NUMBER_PATTERN = /^(?:\d[ -]?){12,18}\d$/; // 13-19 digits, whatever the field is called
+
+// Card numbers carry a Luhn check digit, which rules out most other long digit strings (ids, timestamps)
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const looksLikeCardNumber = (value: string): boolean =>
+  CARD_NUMBER_PATTERN.test(value.trim()) && passesLuhn(value.replace(/\D/g, ''));
+
+// Keyed, so a hash cannot be matched by hashing guessed addresses. Production needs
+// LOG_HASH_SECRET; without it, emails are redacted instead.
+const emailHashKey = (): string | null => {
+  const secret = process.env.LOG_HASH_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === 'production' ? null : 'dev-log-hash-secret-change-me';
+};
+
+/**
+ * Stable, non-reversible stand-in for an email, so repeated addresses can still be spotted.
+ */
+export function hashEmail(email: string): string {
+  const key = emailHashKey();
+  if (!key) return REDACTED;
+  return `hmac:${crypto.createHmac('sha256', key).update(email.trim().toLowerCase()).digest('hex').slice(0, 16)}`;
+}
+
+const redactValue = (value: unknown, path: string, depth: number): unknown => {
+  if (typeof value === 'string' && looksLikeCardNumber(value)) return DROPPED;
+  if (typeof value === 'string' && EMAIL_PATTERN.test(value.trim())) return hashEmail(value);
+
+  if (Array.isArray(value)) {
+    if (depth >= MAX_DEPTH) return REDACTED;
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redactValue(item, `${path}[]`, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `[${value.length - MAX_ARRAY_ITEMS} more]`] : items;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    if (depth >= MAX_DEPTH) return REDACTED;
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+      key,
+      BODY_REDACTION_POLICY.drop.some(pattern => pattern.test(key))
+        ? DROPPED
+        : redactValue(field, path ? `${path}.${key}` : key, depth + 1),
+    ]));
+  }
+
+  if (value === null || !BODY_REDACTION_POLICY.allow.includes(path)) {
+    return value === null ? null : REDACTED;
+  }
+  return typeof value === 'string' ? value.slice(0, MAX_STRING_LENGTH) : value;
+};
+
+/**
+ * `body` as it may be stored on a traffic log, following BODY_REDACTION_POLICY.
+ */
+export function redactBody(body: unknown): unknown {
+  return redactValue(body, '', 0);
+}
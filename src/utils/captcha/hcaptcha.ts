@@ -0,0 +1,19 @@
+// src/utils/captcha/hcaptcha.ts
+import { CaptchaProvider } from './types';
+import { postSiteverify } from './siteverify';
+
+const VERIFY_URL = 'https://api.hcaptcha.com/siteverify';
+
+// hCaptcha's always-pass test keys
+const TEST_SITE_KEY = '10000000-ffff-ffff-ffff-000000000001';
+const TEST_SECRET_KEY = '0x0000000000000000000000000000000000000000';
+
+export class HCaptchaProvider implements CaptchaProvider {
+  readonly kind = 'hcaptcha';
+  readonly siteKey = process.env.HCAPTCHA_SITE_KEY || TEST_SITE_KEY;
+  private readonly secretKey = process.env.HCAPTCHA_SECRET_KEY || TEST_SECRET_KEY;
+
+  verify(token: string, remoteIp: string, signal: AbortSignal): Promise<boolean> {
+    return postSiteverify(VERIFY_URL, this.secretKey, token, remoteIp, signal);
+  }
+}
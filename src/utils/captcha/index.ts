@@ -0,0 +1,90 @@
+// src/utils/captcha/index.ts
+import { CaptchaCheck, CaptchaProviderKind } from '@/types';
+import { CaptchaClientConfig, CaptchaProvider, DEFAULT_CAPTCHA_TIMEOUT_MS } from './types';
+import { TurnstileCaptchaProvider } from './turnstile';
+import { HCaptchaProvider } from './hcaptcha';
+import { ReCaptchaProvider } from './recaptcha';
+import { MockCaptchaProvider } from './mock';
+
+export * from './types';
+export type { MockCaptchaBehaviour } from './mock';
+export { TurnstileCaptchaProvider, HCaptchaProvider, ReCaptchaProvider, MockCaptchaProvider };
+
+const PROVIDER_KINDS: CaptchaProviderKind[] = ['turnstile', 'hcaptcha', 'recaptcha', 'mock'];
+
+let provider: CaptchaProvider | null = null;
+
+/**
+ * Which provider to use: `CAPTCHA_PROVIDER` (turnstile | hcaptcha | recaptcha | mock), default Turnstile.
+ */
+export function resolveCaptchaProviderKind(): CaptchaProviderKind {
+  const configured = process.env.CAPTCHA_PROVIDER?.toLowerCase();
+  if (PROVIDER_KINDS.includes(configured as CaptchaProviderKind)) {
+    return configured as CaptchaProviderKind;
+  }
+  if (configured) {
+    console.warn(`Unknown CAPTCHA_PROVIDER "${configured}", falling back to turnstile.`);
+  }
+  return 'turnstile';
+}
+
+export function createCaptchaProvider(kind: CaptchaProviderKind): CaptchaProvider {
+  switch (kind) {
+    case 'hcaptcha':
+      return new HCaptchaProvider();
+    case 'recaptcha':
+      return new ReCaptchaProvider();
+    case 'mock':
+      return new MockCaptchaProvider();
+    case 'turnstile':
+    default:
+      return new TurnstileCaptchaProvider();
+  }
+}
+
+/**
+ * Get the configured CAPTCHA provider (created once per process).
+ */
+export function getCaptchaProvider(): CaptchaProvider {
+  if (!provider) {
+    provider = createCaptchaProvider(resolveCaptchaProviderKind());
+  }
+  return provider;
+}
+
+/**
+ * Override the active provider (e.g. with a MockCaptchaProvider in scripts or tests).
+ */
+export function setCaptchaProvider(next: CaptchaProvider | null): void {
+  provider = next;
+}
+
+export function getCaptchaClientConfig(): CaptchaClientConfig {
+  const { kind, siteKey } = getCaptchaProvider();
+  return { provider: kind, siteKey };
+}
+
+const captchaTimeoutMs = (): number => {
+  const configured = parseInt(process.env.CAPTCHA_TIMEOUT_MS ?? '', 10);
+  return configured > 0 ? configured : DEFAULT_CAPTCHA_TIMEOUT_MS;
+};
+
+/**
+ * Verify a widget token with the configured provider, timing the round trip.
+ * Never throws: network failures come back as `error`, and slow providers as `timeout`.
+ */
+export async function verifyCaptcha(token: string, remoteIp: string): Promise<CaptchaCheck> {
+  const active = getCaptchaProvider();
+  const signal = AbortSignal.timeout(captchaTimeoutMs());
+  const startedAt = performance.now();
+
+  let outcome: CaptchaCheck['outcome'];
+  try {
+    outcome = (await active.verify(token, remoteIp, signal)) ? 'pass' : 'fail';
+  } catch (error) {
+    outcome = signal.aborted ? 'timeout' : 'error';
+    console.error(`CAPTCHA verification (${active.kind}) ${outcome}:`, error);
+  }
+
+  return { provider: active.kind, outcome, latencyMs: Math.round(performance.now() - startedAt) };
+}
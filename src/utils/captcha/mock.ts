@@ -0,0 +1,42 @@
+// src/utils/captcha/mock.ts
+import { CaptchaProvider } from './types';
+
+export type MockCaptchaBehaviour = 'pass' | 'fail' | 'timeout';
+
+const BEHAVIOURS: MockCaptchaBehaviour[] = ['pass', 'fail', 'timeout'];
+const TOKEN_PREFIX = 'mock:';
+
+const isBehaviour = (value: string | undefined): value is MockCaptchaBehaviour =>
+  BEHAVIOURS.includes(value as MockCaptchaBehaviour);
+
+/**
+ * Offline provider for tests and air-gapped demos; never touches the network.
+ * Answers with `behaviour` (from `CAPTCHA_MOCK_OUTCOME`, default pass), unless the token
+ * itself is `mock:pass`, `mock:fail` or `mock:timeout`. `timeout` waits until the caller gives up.
+ */
+export class MockCaptchaProvider implements CaptchaProvider {
+  readonly kind = 'mock';
+  readonly siteKey = 'mock-site-key';
+  private readonly behaviour: MockCaptchaBehaviour;
+
+  constructor(behaviour?: MockCaptchaBehaviour) {
+    const configured = process.env.CAPTCHA_MOCK_OUTCOME?.toLowerCase();
+    if (configured && !isBehaviour(configured)) {
+      console.warn(`Unknown CAPTCHA_MOCK_OUTCOME "${configured}", falling back to pass.`);
+    }
+    this.behaviour = behaviour ?? (isBehaviour(configured) ? configured : 'pass');
+  }
+
+  verify(token: string, _remoteIp: string, signal: AbortSignal): Promise<boolean> {
+    const requested = token.startsWith(TOKEN_PREFIX) ? token.slice(TOKEN_PREFIX.length) : undefined;
+    const behaviour = isBehaviour(requested) ? requested : this.behaviour;
+
+    if (behaviour !== 'timeout') {
+      return Promise.resolve(behaviour === 'pass');
+    }
+    return new Promise((_resolve, reject) => {
+      if (signal.aborted) return reject(signal.reason);
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+  }
+}
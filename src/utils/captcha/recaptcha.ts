@@ -0,0 +1,19 @@
+// src/utils/captcha/recaptcha.ts
+import { CaptchaProvider } from './types';
+import { postSiteverify } from './siteverify';
+
+const VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify';
+
+// Google's always-pass reCAPTCHA v2 test keys
+const TEST_SITE_KEY = '6LeIxAcTAAAAAJcZVRqyHh4ykjokSxBUpA_zEE2oz1CN';
+const TEST_SECRET_KEY = '6LeIxAcTAAAAAGG-vFI1TnRWxMZNFuojJ4WifJWe';
+
+export class ReCaptchaProvider implements CaptchaProvider {
+  readonly kind = 'recaptcha';
+  readonly siteKey = process.env.RECAPTCHA_SITE_KEY || TEST_SITE_KEY;
+  private readonly secretKey = process.env.RECAPTCHA_SECRET_KEY || TEST_SECRET_KEY;
+
+  verify(token: string, remoteIp: string, signal: AbortSignal): Promise<boolean> {
+    return postSiteverify(VERIFY_URL, this.secretKey, token, remoteIp, signal);
+  }
+}
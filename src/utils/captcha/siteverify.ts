@@ -0,0 +1,23 @@
+// src/utils/captcha/siteverify.ts
+
+/**
+ * POST a token to a `siteverify` endpoint. Turnstile, hCaptcha and reCAPTCHA all take the same
+ * form-encoded `secret` / `response` / `remoteip` fields and answer `{ success: boolean }`.
+ */
+export async function postSiteverify(
+  url: string,
+  secret: string,
+  token: string,
+  remoteIp: string,
+  signal: AbortSignal
+): Promise<boolean> {
+  const body = new URLSearchParams({ secret, response: token });
+  if (remoteIp !== 'unknown') body.set('remoteip', remoteIp);
+
+  const response = await fetch(url, { method: 'POST', body, signal });
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+  const result = await response.json();
+  return result.success === true;
+}
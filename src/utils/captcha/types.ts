@@ -0,0 +1,24 @@
+// src/utils/captcha/types.ts
+import { CaptchaProviderKind } from '@/types';
+
+export const DEFAULT_CAPTCHA_TIMEOUT_MS = 5000; // Give up on the provider after 5 seconds
+
+/**
+ * A CAPTCHA service that checks widget tokens on the server.
+ * Implementations: Turnstile, hCaptcha, reCAPTCHA (v2) and an offline mock.
+ */
+export interface CaptchaProvider {
+  readonly kind: CaptchaProviderKind;
+  readonly siteKey: string; // Public key the browser widget is rendered with
+
+  /**
+   * Whether the provider accepted `token`. Must give up (reject) once `signal` aborts.
+   */
+  verify(token: string, remoteIp: string, signal: AbortSignal): Promise<boolean>;
+}
+
+// What the login form needs to render the widget
+export interface CaptchaClientConfig {
+  provider: CaptchaProviderKind;
+  siteKey: string;
+}
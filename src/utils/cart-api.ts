@@ -0,0 +1,41 @@
+// src/utils/cart-api.ts
+import { Cart } from '@/types';
+
+// Browser-side calls to /api/cart. Changes are announced with a `cartUpdated` event
+// carrying the new cart, so the header count stays in step.
+export const CART_UPDATED_EVENT = 'cartUpdated';
+
+const request = async (url: string, init?: RequestInit): Promise<Cart> => {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || 'Could not update your cart');
+  return data.cart;
+};
+
+/**
+ * Tell listeners the cart changed without going through /api/cart (e.g. checkout emptied it).
+ */
+export const announceCart = (cart: Cart): void => {
+  window.dispatchEvent(new CustomEvent<Cart>(CART_UPDATED_EVENT, { detail: cart }));
+};
+
+const change = async (url: string, method: string, body?: object): Promise<Cart> => {
+  const cart = await request(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  announceCart(cart);
+  return cart;
+};
+
+export const fetchCart = (): Promise<Cart> => request('/api/cart');
+
+export const addToCart = (productId: number, quantity = 1): Promise<Cart> =>
+  change('/api/cart', 'POST', { productId, quantity });
+
+export const updateCartQuantity = (productId: number, quantity: number): Promise<Cart> =>
+  change(`/api/cart/${productId}`, 'PATCH', { quantity });
+
+export const removeFromCart = (productId: number): Promise<Cart> =>
+  change(`/api/cart/${productId}`, 'DELETE');
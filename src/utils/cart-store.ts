@@ -0,0 +1,158 @@
+// src/utils/cart-store.ts
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Cart, CartItem } from '@/types';
+import { getSession } from './session';
+import { getProduct } from './product-store';
+import { getTrafficStore } from './traffic-store';
+
+// Carts are records holding product ids and quantities; prices and names come from the catalog
+// whenever a cart is read. Logged-in users' carts are keyed by account (so they follow the user
+// across devices); visitors get a guest cart keyed by a random id in the `cart_id` cookie, which
+// is merged into the account cart when they log in or register.
+export const CART_COOKIE_NAME = 'cart_id';
+const CART_NAMESPACE = 'cart';
+const GUEST_CART_TTL_SECONDS = 7 * 24 * 60 * 60; // Abandoned guest carts expire after a week
+const GUEST_ID_PATTERN = /^[A-Za-z0-9_-]{24}$/;
+
+export const MAX_LINE_QUANTITY = 99;
+
+interface CartLine {
+  productId: number;
+  quantity: number;
+}
+
+interface StoredCart {
+  lines: CartLine[];
+  updatedAt: string;
+}
+
+export interface CartOwner {
+  key: string;         // Record key: `account:<email>` or `guest:<cart id>`
+  account?: string;    // Email of the logged-in user
+  newGuestId?: string; // Set when the request had no guest cart yet; see `setGuestCartCookie`
+}
+
+const accountKey = (account: string) => `account:${account.trim().toLowerCase()}`;
+const guestKey = (guestId: string) => `guest:${guestId}`;
+
+const guestIdOf = (req: NextRequest): string | null => {
+  const guestId = req.cookies.get(CART_COOKIE_NAME)?.value;
+  return guestId && GUEST_ID_PATTERN.test(guestId) ? guestId : null;
+};
+
+/**
+ * Whose cart the request works on: the session's account, or else the visitor's guest cart.
+ */
+export async function getCartOwner(req: NextRequest): Promise<CartOwner> {
+  const session = await getSession(req);
+  if (session) return { key: accountKey(session.user.email), account: session.user.email };
+
+  const guestId = guestIdOf(req);
+  if (guestId) return { key: guestKey(guestId) };
+
+  const newGuestId = crypto.randomBytes(18).toString('base64url');
+  return { key: guestKey(newGuestId), newGuestId };
+}
+
+/**
+ * Give a visitor whose cart was just started the cookie that keeps it.
+ */
+export function setGuestCartCookie(response: NextResponse, owner: CartOwner): void {
+  if (!owner.newGuestId) return;
+  response.cookies.set(CART_COOKIE_NAME, owner.newGuestId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: GUEST_CART_TTL_SECONDS,
+  });
+}
+
+const readCart = async (key: string): Promise<StoredCart> =>
+  (await getTrafficStore().getRecord<StoredCart>(CART_NAMESPACE, key)) ?? { lines: [], updatedAt: new Date().toISOString() };
+
+// Change a cart's lines atomically, so concurrent adds (or a merge during an add) are not lost.
+// `change` may run more than once. An empty cart is deleted.
+const updateCart = async (key: string, change: (lines: CartLine[]) => CartLine[]): Promise<void> => {
+  await getTrafficStore().updateRecord<StoredCart>(CART_NAMESPACE, key, current => {
+    const lines = change(current?.lines ?? []);
+    return lines.length > 0 ? { lines, updatedAt: new Date().toISOString() } : null;
+  }, key.startsWith('guest:') ? GUEST_CART_TTL_SECONDS : undefined);
+};
+
+// Add `quantity` to a product's line, capped at MAX_LINE_QUANTITY
+const addLine = (lines: CartLine[], productId: number, quantity: number): CartLine[] => {
+  const existing = lines.find(line => line.productId === productId);
+  if (!existing) return [...lines, { productId, quantity: Math.min(quantity, MAX_LINE_QUANTITY) }];
+  return lines.map(line => line === existing
+    ? { productId, quantity: Math.min(line.quantity + quantity, MAX_LINE_QUANTITY) }
+    : line);
+};
+
+/**
+ * The cart stored under `key`, priced from the catalog. Lines for products no longer
+ * in the catalog are left out.
+ */
+export async function getCart(key: string): Promise<Cart> {
+  const { lines } = await readCart(key);
+  const items = (await Promise.all(lines.map(async ({ productId, quantity }): Promise<CartItem | null> => {
+    const product = await getProduct(productId);
+    return product ? { ...product, quantity } : null;
+  }))).filter((item): item is CartItem => item !== null);
+
+  return {
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    total: Math.round(items.reduce((sum, item) => sum + item.price * item.quantity, 0) * 100) / 100,
+  };
+}
+
+export async function addToCart(key: string, productId: number, quantity: number): Promise<Cart> {
+  await updateCart(key, lines => addLine(lines, productId, quantity));
+  return getCart(key);
+}
+
+/**
+ * Set a product's quantity; 0 removes its line.
+ */
+export async function setCartQuantity(key: string, productId: number, quantity: number): Promise<Cart> {
+  await updateCart(key, lines => {
+    const others = lines.filter(line => line.productId !== productId);
+    return quantity > 0 ? addLine(others, productId, quantity) : others;
+  });
+  return getCart(key);
+}
+
+export async function clearCart(key: string): Promise<void> {
+  await getTrafficStore().deleteRecord(CART_NAMESPACE, key);
+}
+
+/**
+ * Empty an account's cart (once its order is placed).
+ */
+export async function clearAccountCart(account: string): Promise<void> {
+  await clearCart(accountKey(account));
+}
+
+/**
+ * Move the request's guest cart (if any) into `account`'s cart, adding quantities for
+ * products in both, and drop the guest cookie on `response`.
+ */
+export async function mergeGuestCart(req: NextRequest, response: NextResponse, account: string): Promise<void> {
+  const guestId = guestIdOf(req);
+  if (!guestId) return;
+
+  // Take the guest cart in one step, so a concurrent add lands either in it or after it
+  let guestLines: CartLine[] = [];
+  await getTrafficStore().updateRecord<StoredCart>(CART_NAMESPACE, guestKey(guestId), current => {
+    guestLines = current?.lines ?? [];
+    return null;
+  });
+  if (guestLines.length > 0) {
+    const taken = guestLines;
+    await updateCart(accountKey(account), lines =>
+      taken.reduce((result, line) => addLine(result, line.productId, line.quantity), lines));
+  }
+  response.cookies.delete(CART_COOKIE_NAME);
+}
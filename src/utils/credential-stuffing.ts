@@ -0,0 +1,177 @@
+// src/utils/credential-stuffing.ts
+import { TrafficAlert, TrafficLog } from '@/types';
+import { getTrafficLogs } from './traffic-logger';
+import { getTrafficStore, MAX_ALERTS, MAX_LOGS } from './traffic-store';
+
+export const LOGIN_ENDPOINTS = ['/api/auth/login', '/api/auth/captcha-login'];
+
+// Detection thresholds; an alert is 'high' severity at twice its threshold
+export const STUFFING_THRESHOLDS = {
+  windowMinutes: 10,         // Login traffic considered per scan
+  distinctAccountsPerIp: 5,  // Many different emails from one IP
+  distinctIpsPerAccount: 5,  // One email tried from many IPs
+  failureRatio: 0.8,         // Share of 401s from one IP...
+  minAttemptsForRatio: 10,   // ...once it has made at least this many attempts
+};
+
+const SCAN_INTERVAL_MS = 10 * 1000; // Scans triggered by login traffic run at most this often
+const SAMPLE_SIZE = 5;              // Log entries kept as evidence per alert
+
+// An alert before it is matched against the stored ones
+type StuffingFinding = Pick<TrafficAlert, 'rule' | 'subject' | 'severity' | 'summary' | 'evidence'>;
+
+const normalizeAccount = (account: string) => account.trim().toLowerCase();
+
+const groupBy = (logs: TrafficLog[], keyOf: (log: TrafficLog) => string | undefined): Map<string, TrafficLog[]> => {
+  const groups = new Map<string, TrafficLog[]>();
+  for (const log of logs) {
+    const key = keyOf(log);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), log]);
+  }
+  return groups;
+};
+
+const countDistinct = (logs: TrafficLog[], keyOf: (log: TrafficLog) => string | undefined): number =>
+  new Set(logs.map(keyOf).filter(Boolean)).size;
+
+/**
+ * Build the evidence for a group of logs (newest first), preferring failed attempts as samples.
+ */
+const evidenceOf = (logs: TrafficLog[], windowStart: number, windowEnd: number): TrafficAlert['evidence'] => {
+  const failures = logs.filter(log => log.statusCode === 401);
+  return {
+    windowStart: new Date(windowStart).toISOString(),
+    windowEnd: new Date(windowEnd).toISOString(),
+    attempts: logs.length,
+    failures: failures.length,
+    distinctAccounts: countDistinct(logs, log => log.account && normalizeAccount(log.account)),
+    distinctIps: countDistinct(logs, log => log.ip),
+    samples: (failures.length > 0 ? failures : logs).slice(0, SAMPLE_SIZE).map(log => ({
+      id: log.id,
+      timestamp: log.timestamp,
+      endpoint: log.endpoint,
+      ip: log.ip,
+      account: log.account,
+      statusCode: log.statusCode,
+      userAgent: log.userAgent,
+      isBot: log.isBot,
+    })),
+  };
+};
+
+/**
+ * Find credential-stuffing patterns in login logs (newest first) covering [windowStart, windowEnd].
+ */
+export function findStuffingPatterns(logs: TrafficLog[], windowStart: number, windowEnd: number): StuffingFinding[] {
+  const t = STUFFING_THRESHOLDS;
+  const findings: StuffingFinding[] = [];
+  const severityOf = (value: number, threshold: number) => (value >= threshold * 2 ? 'high' : 'medium');
+
+  for (const [ip, ipLogs] of groupBy(logs, log => log.ip)) {
+    const evidence = evidenceOf(ipLogs, windowStart, windowEnd);
+
+    if (evidence.distinctAccounts >= t.distinctAccountsPerIp) {
+      findings.push({
+        rule: 'many-accounts-per-ip',
+        subject: ip,
+        severity: severityOf(evidence.distinctAccounts, t.distinctAccountsPerIp),
+        summary: `${ip} tried ${evidence.distinctAccounts} different accounts`,
+        evidence,
+      });
+    }
+
+    const ratio = evidence.failures / evidence.attempts;
+    if (evidence.attempts >= t.minAttemptsForRatio && ratio >= t.failureRatio) {
+      findings.push({
+        rule: 'high-failure-ratio',
+        subject: ip,
+        severity: severityOf(evidence.attempts, t.minAttemptsForRatio),
+        summary: `${Math.round(ratio * 100)}% of ${evidence.attempts} logins from ${ip} failed`,
+        evidence,
+      });
+    }
+  }
+
+  for (const [account, accountLogs] of groupBy(logs, log => log.account && normalizeAccount(log.account))) {
+    const evidence = evidenceOf(accountLogs, windowStart, windowEnd);
+    if (evidence.distinctIps >= t.distinctIpsPerAccount) {
+      findings.push({
+        rule: 'many-ips-per-account',
+        subject: account,
+        severity: severityOf(evidence.distinctIps, t.distinctIpsPerAccount),
+        summary: `${account} was tried from ${evidence.distinctIps} different IPs`,
+        evidence,
+      });
+    }
+  }
+
+  return findings;
+}
+
+let lastScanAt = 0;
+
+/**
+ * Scan recent login traffic and record an alert per finding. A finding for the same rule and
+ * subject as an alert updated within the window refreshes that alert instead of raising a new one.
+ * Runs at most every SCAN_INTERVAL_MS unless `force` is set. Returns the alerts raised or updated.
+ */
+export async function scanForCredentialStuffing(options: { force?: boolean } = {}): Promise<TrafficAlert[]> {
+  const now = Date.now();
+  if (!options.force && now - lastScanAt < SCAN_INTERVAL_MS) return [];
+  lastScanAt = now;
+
+  try {
+    const windowStart = now - STUFFING_THRESHOLDS.windowMinutes * 60 * 1000;
+    const logs = (await Promise.all(
+      LOGIN_ENDPOINTS.map(endpoint => getTrafficLogs({ endpoint, since: windowStart, limit: MAX_LOGS }))
+    )).flat().sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    const findings = findStuffingPatterns(logs, windowStart, now);
+    if (findings.length === 0) return [];
+
+    const store = getTrafficStore();
+    const existing = await store.getAlerts(MAX_ALERTS);
+    const saved: TrafficAlert[] = [];
+
+    for (const finding of findings) {
+      const active = existing.find(alert =>
+        alert.rule === finding.rule &&
+        alert.subject === finding.subject &&
+        new Date(alert.updatedAt).getTime() >= windowStart
+      );
+      // Nothing new since the last scan
+      if (active && active.evidence.attempts === finding.evidence.attempts && active.severity === finding.severity) continue;
+
+      const alert: TrafficAlert = {
+        ...finding,
+        id: active?.id ?? `${now}-${Math.random().toString(36).substring(2, 10)}`,
+        raisedAt: active?.raisedAt ?? new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      };
+      await store.saveAlert(alert);
+      saved.push(alert);
+    }
+
+    if (saved.length > 0) {
+      console.warn(`Credential stuffing: ${saved.length} alert(s) raised or updated`, saved.map(a => a.summary));
+    }
+    return saved;
+
+  } catch (error) {
+    console.error('!!! ERROR scanning for credential stuffing !!!', error);
+    return [];
+  }
+}
+
+/**
+ * Stored alerts, most recently updated first.
+ */
+export async function getTrafficAlerts(limit: number): Promise<TrafficAlert[]> {
+  try {
+    return await getTrafficStore().getAlerts(limit);
+  } catch (error) {
+    console.error('!!! ERROR retrieving traffic alerts !!!', error);
+    return [];
+  }
+}
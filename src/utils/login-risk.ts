@@ -0,0 +1,65 @@
+// src/utils/login-risk.ts
+import { NextRequest } from 'next/server';
+import { LoginRisk, LoginRiskSignals } from '@/types';
+import { getClientIp, getTrafficLogs } from './traffic-logger';
+import { MAX_LOGS } from './traffic-store';
+import { LOGIN_ENDPOINTS } from './credential-stuffing';
+
+// Points per signal; the score is their sum, capped at 100
+export const LOGIN_RISK_WEIGHTS = {
+  classification: {
+    'bad-bot': 60,
+    'good-bot': 30,   // Crawlers have no business logging in
+    unclassified: 15, // No Kasada verdict (header missing or unknown)
+    human: 0,
+  } as Record<string, number>,
+  failureWindowMinutes: 15,
+  pointsPerFailure: 10,   // Per 401/423 from the IP in the window
+  maxFailurePoints: 40,
+  velocityWindowSeconds: 60,
+  freeAttempts: 3,        // Attempts per window before velocity counts
+  pointsPerAttempt: 10,   // Per attempt beyond `freeAttempts`
+  maxVelocityPoints: 30,
+};
+
+export const DEFAULT_LOGIN_RISK_THRESHOLD = 50;
+
+/**
+ * Score at or above which a login must pass a CAPTCHA (`LOGIN_RISK_THRESHOLD`, 0-100).
+ */
+export function loginRiskThreshold(): number {
+  const configured = parseInt(process.env.LOGIN_RISK_THRESHOLD ?? '', 10);
+  return configured >= 0 && configured <= 100 ? configured : DEFAULT_LOGIN_RISK_THRESHOLD;
+}
+
+/**
+ * Score a login attempt from what the traffic log already knows about its client.
+ * Fails open (score from the header alone) if the store is unavailable.
+ */
+export async function assessLoginRisk(req: NextRequest): Promise<LoginRisk> {
+  const weights = LOGIN_RISK_WEIGHTS;
+  const classification = req.headers.get('x-kasada-classification') ?? 'unclassified';
+  const signals: LoginRiskSignals = {
+    classification: weights.classification[classification] ?? weights.classification.unclassified,
+    recentFailures: 0,
+    velocity: 0,
+  };
+
+  const ip = getClientIp(req);
+  if (ip !== 'unknown') {
+    const now = Date.now();
+    const logs = (await getTrafficLogs({ ip, since: now - weights.failureWindowMinutes * 60 * 1000, limit: MAX_LOGS }))
+      .filter(log => LOGIN_ENDPOINTS.includes(log.endpoint));
+
+    const failures = logs.filter(log => log.statusCode === 401 || log.statusCode === 423).length;
+    signals.recentFailures = Math.min(failures * weights.pointsPerFailure, weights.maxFailurePoints);
+
+    const velocitySince = now - weights.velocityWindowSeconds * 1000;
+    const attempts = logs.filter(log => new Date(log.timestamp).getTime() > velocitySince).length;
+    signals.velocity = Math.min(Math.max(attempts - weights.freeAttempts, 0) * weights.pointsPerAttempt, weights.maxVelocityPoints);
+  }
+
+  const score = Math.min(signals.classification + signals.recentFailures + signals.velocity, 100);
+  const threshold = loginRiskThreshold();
+  return { score, threshold, decision: score >= threshold ? 'challenge' : 'allow', signals };
+}
@@ -0,0 +1,101 @@
+// src/utils/login.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { CaptchaCheck } from '@/types';
+import { getClientIp, logTraffic, recordUpstreamCall, TrafficLogDetails } from './traffic-logger';
+import { scanForCredentialStuffing } from './credential-stuffing';
+import { clearLockout, getLockedUntil, recordLoginFailure } from './account-lockout';
+import { createSession } from './session';
+import { mergeGuestCart } from './cart-store';
+import { verifyCredentials } from './user-store';
+import { verifyCaptcha } from './captcha';
+
+/**
+ * Verify a login's CAPTCHA token. If it did not pass, the 400 (rejected) or 503 (provider
+ * timed out or failed) response is returned as `rejection`, already logged with `details`.
+ */
+export async function checkLoginCaptcha(
+  req: NextRequest,
+  endpointPath: string,
+  email: string,
+  token: string,
+  details: TrafficLogDetails = {}
+): Promise<{ captcha: CaptchaCheck; rejection: NextResponse | null }> {
+  const captcha = await verifyCaptcha(token, getClientIp(req));
+  recordUpstreamCall(req, { name: `captcha:${captcha.provider}`, durationMs: captcha.latencyMs, outcome: captcha.outcome });
+
+  if (captcha.outcome === 'timeout' || captcha.outcome === 'error') {
+    // The provider could not answer; fail closed but let the client retry
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 503 (Service Unavailable - CAPTCHA ${captcha.outcome})`);
+    await logTraffic(req, endpointPath, 503, { ...details, account: email, reason: `captcha:${captcha.outcome}`, captcha });
+    const rejection = NextResponse.json(
+      { message: 'CAPTCHA verification is unavailable right now. Please try again.' },
+      { status: 503 }
+    );
+    return { captcha, rejection };
+  }
+
+  if (captcha.outcome === 'fail') {
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 400 (Bad Request - Invalid CAPTCHA)`);
+    await logTraffic(req, endpointPath, 400, { ...details, account: email, reason: 'captcha:fail', captcha });
+    const rejection = NextResponse.json(
+      { message: 'CAPTCHA verification failed. Please try again.' },
+      { status: 400 }
+    );
+    return { captcha, rejection };
+  }
+
+  return { captcha, rejection: null };
+}
+
+/**
+ * Shared tail of the login routes, once the request itself has been validated:
+ * account lockout, credential check, traffic logging and the session cookie.
+ * `details` (e.g. the CAPTCHA check) are added to whichever log entry the login ends with.
+ */
+export async function completeLogin(
+  req: NextRequest,
+  endpointPath: string,
+  email: string,
+  password: string,
+  details: TrafficLogDetails = {}
+): Promise<NextResponse> {
+  // --- Account lockout ---
+  const lockedUntil = await getLockedUntil(email);
+  if (lockedUntil) {
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 423 (Locked - Too many failed logins)`);
+    await logTraffic(req, endpointPath, 423, { ...details, account: email, reason: 'account-locked' });
+    return NextResponse.json(
+      { message: 'This account is temporarily locked after too many failed logins. Try again later or reset your password.' },
+      { status: 423, headers: { 'Retry-After': String(Math.ceil((lockedUntil - Date.now()) / 1000)) } }
+    );
+  }
+
+  // --- Check credentials ---
+  const user = await verifyCredentials(email, password);
+  if (!user) {
+    const lockedNow = await recordLoginFailure(email);
+    // Log the failed login attempt
+    console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 401 (Unauthorized - Invalid credentials)`);
+    await logTraffic(req, endpointPath, 401, { ...details, account: email, reason: lockedNow ? 'lockout-triggered' : undefined });
+    // Check whether this failure completes a credential-stuffing pattern (throttled)
+    await scanForCredentialStuffing();
+    return NextResponse.json(
+      { message: 'Invalid email or password' },
+      { status: 401 }
+    );
+  }
+
+  // --- Successful Login ---
+  await clearLockout(email);
+  console.log(`Calling logTraffic for endpoint: ${endpointPath} with status: 200 (OK - Login successful)`);
+  await logTraffic(req, endpointPath, 200, { ...details, account: email });
+  const response = NextResponse.json({
+    message: 'Login successful',
+    user
+  });
+  // Issue the signed, HTTP-only session cookie
+  await createSession(req, response, user);
+  // Carry over anything added to the cart before logging in
+  await mergeGuestCart(req, response, user.email);
+  return response;
+}
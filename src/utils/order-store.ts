@@ -0,0 +1,74 @@
+// src/utils/order-store.ts
+import { Order } from '@/types';
+import { getTrafficStore } from './traffic-store';
+
+// Orders are records keyed by id. Two append-only indexes (all orders, and each account's orders)
+// map sequence numbers from atomic quantity increments to order ids, so concurrent checkouts
+// never overwrite each other's index entries.
+const ORDER_NAMESPACE = 'order';
+const ORDER_INDEX_NAMESPACE = 'order-index';
+const ALL_ORDERS = 'all';
+
+export const MAX_ORDERS_PER_PAGE = 100;
+
+const accountIndex = (account: string) => `account:${account.trim().toLowerCase()}`;
+const sequenceKey = (index: string) => `orders:${index}`;
+
+// Take the next slot in `index` and point it at `orderId`
+const appendToIndex = async (index: string, orderId: string): Promise<void> => {
+  const store = getTrafficStore();
+  const result = await store.adjustQuantities([{ key: sequenceKey(index), delta: 1, initial: 0 }]);
+  if (!result.applied) throw new Error(`Could not index order ${orderId}`);
+  await store.putRecord(ORDER_INDEX_NAMESPACE, `${index}:${result.values[0]}`, orderId);
+};
+
+// Newest `limit` orders in `index`
+const readIndex = async (index: string, limit: number): Promise<Order[]> => {
+  const store = getTrafficStore();
+  const [count] = await store.getQuantities([sequenceKey(index)]);
+  const slots = Array.from({ length: Math.min(count ?? 0, limit) }, (_, i) => (count ?? 0) - i);
+
+  const orders = await Promise.all(slots.map(async slot => {
+    const orderId = await store.getRecord<string>(ORDER_INDEX_NAMESPACE, `${index}:${slot}`);
+    return orderId ? store.getRecord<Order>(ORDER_NAMESPACE, orderId) : null;
+  }));
+  return orders.filter((order): order is Order => order !== null);
+};
+
+/**
+ * Store a new order and index it. Throws if an order with the same id already exists.
+ */
+export async function saveOrder(order: Order): Promise<void> {
+  if (!await getTrafficStore().createRecord(ORDER_NAMESPACE, order.id, order)) {
+    throw new Error(`Order ${order.id} already exists`);
+  }
+  await appendToIndex(ALL_ORDERS, order.id);
+  await appendToIndex(accountIndex(order.account), order.id);
+}
+
+export async function getOrder(id: string): Promise<Order | null> {
+  return getTrafficStore().getRecord<Order>(ORDER_NAMESPACE, id);
+}
+
+/**
+ * An account's orders, newest first.
+ */
+export async function getOrdersForAccount(account: string, limit = MAX_ORDERS_PER_PAGE): Promise<Order[]> {
+  return readIndex(accountIndex(account), limit);
+}
+
+/**
+ * Every account's orders, newest first (admin view).
+ */
+export async function getAllOrders(limit = MAX_ORDERS_PER_PAGE): Promise<Order[]> {
+  return readIndex(ALL_ORDERS, limit);
+}
+
+/**
+ * The order as its customer may see it: without the request it came from.
+ */
+export function toCustomerOrder(order: Order): Order {
+  const customerOrder = { ...order };
+  delete customerOrder.origin;
+  return customerOrder;
+}
@@ -0,0 +1,51 @@
+// src/utils/outbox.ts
+// Stand-in for an email provider: messages are kept in the TrafficStore and shown at /outbox.
+import crypto from 'crypto';
+import { getTrafficStore } from './traffic-store';
+import { normalizeEmail } from './user-store';
+
+const OUTBOX_NAMESPACE = 'outbox';
+const OUTBOX_ID = 'messages';
+const MAX_MESSAGES = 100;
+const OUTBOX_TTL_SECONDS = 24 * 60 * 60;
+
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  subject: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Whether the outbox can be read over HTTP. Anyone who can read it can follow any reset link,
+ * so it is off in production unless OUTBOX_ENABLED=true.
+ */
+export const isOutboxReadable = (): boolean =>
+  process.env.NODE_ENV !== 'production' || process.env.OUTBOX_ENABLED === 'true';
+
+/**
+ * "Send" an email by adding it to the outbox (newest first, capped at MAX_MESSAGES).
+ */
+export async function sendEmail(message: Pick<OutboxMessage, 'to' | 'subject' | 'body'>): Promise<OutboxMessage> {
+  const store = getTrafficStore();
+  const sent: OutboxMessage = {
+    ...message,
+    to: normalizeEmail(message.to),
+    id: crypto.randomBytes(8).toString('hex'),
+    createdAt: new Date().toISOString(),
+  };
+
+  const messages = (await store.getRecord<OutboxMessage[]>(OUTBOX_NAMESPACE, OUTBOX_ID)) ?? [];
+  await store.putRecord(OUTBOX_NAMESPACE, OUTBOX_ID, [sent, ...messages].slice(0, MAX_MESSAGES), OUTBOX_TTL_SECONDS);
+  console.log(`Outbox: "${sent.subject}" to ${sent.to}`);
+  return sent;
+}
+
+/**
+ * Messages newest first, optionally only those sent to `to`.
+ */
+export async function getOutboxMessages(to?: string): Promise<OutboxMessage[]> {
+  const messages = (await getTrafficStore().getRecord<OutboxMessage[]>(OUTBOX_NAMESPACE, OUTBOX_ID)) ?? [];
+  return to ? messages.filter(message => message.to === normalizeEmail(to)) : messages;
+}
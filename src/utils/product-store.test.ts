@@ -0,0 +1,76 @@
+// src/utils/product-store.test.ts
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Product } from '@/types';
+import { MemoryTrafficStore, setTrafficStore } from './traffic-store';
+import { findPriceTampering, getProduct, readCatalog, releaseStock, reserveStock, restockAll } from './product-store';
+
+setTrafficStore(new MemoryTrafficStore());
+
+const catalog = readCatalog();
+const regular = catalog.find(product => !product.limitedDrop)!;
+const limited = catalog.find(product => product.limitedDrop)!;
+
+const stockOf = async (product: Product) => (await getProduct(product.id))!.stock;
+
+beforeEach(async () => {
+  await restockAll();
+});
+
+test('reserveStock takes stock and releaseStock puts it back', async () => {
+  const reservation = await reserveStock([{ product: regular, quantity: 3 }], 'buyer@example.com');
+  assert.equal(reservation.reserved, true);
+  assert.equal(await stockOf(regular), regular.stock - 3);
+
+  if (reservation.reserved) await releaseStock(reservation.hold);
+  assert.equal(await stockOf(regular), regular.stock);
+});
+
+test('reserveStock is all or nothing when a line is sold out', async () => {
+  const reservation = await reserveStock(
+    [{ product: regular, quantity: 1 }, { product: limited, quantity: limited.stock + 1 }],
+    'buyer@example.com'
+  );
+  assert.deepEqual(reservation, { reserved: false, product: limited, reason: 'sold-out', available: limited.stock });
+  assert.equal(await stockOf(regular), regular.stock);
+});
+
+test('reserveStock caps limited drops per account until the next drop', async () => {
+  const cap = limited.limitedDrop!.perAccountLimit;
+  assert.equal((await reserveStock([{ product: limited, quantity: cap }], 'fan@example.com')).reserved, true);
+
+  const overCap = await reserveStock([{ product: limited, quantity: 1 }], 'fan@example.com');
+  assert.deepEqual(overCap, { reserved: false, product: limited, reason: 'purchase-limit', available: 0 });
+  // Other accounts have their own cap
+  assert.equal((await reserveStock([{ product: limited, quantity: 1 }], 'other@example.com')).reserved, true);
+
+  await restockAll();
+  assert.equal((await reserveStock([{ product: limited, quantity: 1 }], 'fan@example.com')).reserved, true);
+});
+
+test('releaseStock skips products restocked since the reservation', async () => {
+  const reservation = await reserveStock([{ product: limited, quantity: 1 }], 'fan@example.com');
+  assert.ok(reservation.reserved);
+
+  await restockAll();
+  await releaseStock(reservation.hold);
+  assert.equal(await stockOf(limited), limited.stock);
+  // Nor does it hand back a cap slot in the new drop
+  assert.equal((await reserveStock([{ product: limited, quantity: 1 }], 'fan@example.com')).reserved, true);
+  assert.equal((await reserveStock([{ product: limited, quantity: 1 }], 'fan@example.com')).reserved, false);
+});
+
+test('findPriceTampering reports cart items priced away from the catalog', () => {
+  const lines = [{ product: regular, quantity: 3 }, { product: limited, quantity: 1 }];
+  const items = [
+    { ...regular, quantity: 1 },
+    { ...regular, quantity: 1, price: 0.01 },
+    { ...regular, quantity: 1, price: String(regular.price) as unknown as number },
+    { ...limited, quantity: 1, price: undefined as unknown as number }, // No price sent: priced from the catalog
+  ];
+
+  assert.deepEqual(findPriceTampering(items, lines), [
+    { productId: regular.id, claimedPrice: 0.01, catalogPrice: regular.price },
+    { productId: regular.id, claimedPrice: String(regular.price), catalogPrice: regular.price },
+  ]);
+});
@@ -0,0 +1,157 @@
+// src/utils/product-store.ts
+import fs from 'fs';
+import path from 'path';
+import { CartItem, PriceTampering, Product } from '@/types';
+import { getTrafficStore, QuantityChange } from './traffic-store';
+
+// The catalog is read from the JSON file; stock levels live in the TrafficStore once they change,
+// with the file's `stock` as the starting level
+export const PRODUCT_CATALOG_FILE_PATH = path.join(process.cwd(), 'src/data/products.json');
+
+// Quantity keys
+const stockKey = (product: Product) => `stock:${product.sku}`;
+const dropKey = (product: Product) => `drop:${product.sku}`; // Restock count; purchase caps and stock holds belong to one drop
+const purchasedKey = (product: Product, drop: number, account: string) =>
+  `purchased:${product.sku}:${drop}:${account.trim().toLowerCase()}`;
+
+export function readCatalog(): Product[] {
+  if (!fs.existsSync(PRODUCT_CATALOG_FILE_PATH)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(PRODUCT_CATALOG_FILE_PATH, 'utf8'));
+  } catch (error) {
+    console.error('Error parsing products.json:', error);
+    return [];
+  }
+}
+
+let catalog: Product[] | null = null; // Read once per process
+
+const getCatalog = (): Product[] => (catalog ??= readCatalog());
+
+// The catalog file's stock, even if `product` was read with a current level
+const getInitialStock = (product: Product): number =>
+  getCatalog().find(p => p.id === product.id)?.stock ?? product.stock;
+
+const withStock = async (products: Product[]): Promise<Product[]> => {
+  const levels = await getTrafficStore().getQuantities(products.map(stockKey));
+  return products.map((product, index) => ({ ...product, stock: levels[index] ?? product.stock }));
+};
+
+export async function getProducts(): Promise<Product[]> {
+  return withStock(getCatalog());
+}
+
+export async function getProduct(id: number): Promise<Product | null> {
+  const product = getCatalog().find(p => p.id === id);
+  return product ? (await withStock([product]))[0] : null;
+}
+
+export interface InventoryLevel {
+  product: Product;     // With the current stock level
+  initialStock: number; // Catalog stock the current drop started from
+}
+
+/**
+ * Current against starting stock for every product (the admin inventory view).
+ */
+export async function getInventory(): Promise<InventoryLevel[]> {
+  return (await getProducts()).map(product => ({ product, initialStock: getInitialStock(product) }));
+}
+
+export interface StockLine {
+  product: Product;
+  quantity: number;
+}
+
+/**
+ * Cart items whose price differs from the catalog price of their line's product. Items that
+ * send no price are priced from the catalog without complaint.
+ */
+export function findPriceTampering(items: CartItem[], lines: StockLine[]): PriceTampering[] {
+  return items
+    .map(item => ({ item, product: lines.find(line => line.product.id === item.id)!.product }))
+    .filter(({ item, product }) => item.price !== undefined && item.price !== product.price)
+    .map(({ item, product }) => ({ productId: product.id, claimedPrice: item.price, catalogPrice: product.price }));
+}
+
+// What a reservation took out of stock (and counted against purchase caps), per product and
+// with the drop it was taken from, so it can be put back
+export interface StockHold {
+  lines: { dropKey: string; drop: number; changes: QuantityChange[] }[];
+}
+
+export type StockReservation =
+  | { reserved: true; hold: StockHold }
+  | { reserved: false; product: Product; reason: 'sold-out' | 'purchase-limit'; available: number };
+
+/**
+ * Take `lines` out of stock for `account`, all or nothing. Limited-drop products also count
+ * against the account's cap for the current drop. Lines should name distinct products.
+ */
+export async function reserveStock(lines: StockLine[], account: string): Promise<StockReservation> {
+  const store = getTrafficStore();
+  const drops = (await store.getQuantities(lines.map(line => dropKey(line.product)))).map(drop => drop ?? 0);
+
+  const changes: QuantityChange[] = lines.map(line => ({
+    key: stockKey(line.product), delta: -line.quantity, initial: getInitialStock(line.product), min: 0,
+  }));
+  // Which line each change belongs to
+  const lineIndexOf: number[] = lines.map((_, index) => index);
+  lines.forEach((line, index) => {
+    if (!line.product.limitedDrop) return;
+    changes.push({
+      key: purchasedKey(line.product, drops[index], account),
+      delta: line.quantity,
+      initial: 0,
+      max: line.product.limitedDrop.perAccountLimit,
+    });
+    lineIndexOf.push(index);
+  });
+
+  const result = await store.adjustQuantities(changes);
+  if (result.applied) {
+    const hold: StockHold = {
+      lines: lines.map((line, index) => ({
+        dropKey: dropKey(line.product),
+        drop: drops[index],
+        changes: changes.filter((_, changeIndex) => lineIndexOf[changeIndex] === index),
+      })),
+    };
+    return { reserved: true, hold };
+  }
+
+  const { product } = lines[lineIndexOf[result.failedIndex]];
+  return result.failedIndex < lines.length
+    ? { reserved: false, product, reason: 'sold-out', available: result.current }
+    : { reserved: false, product, reason: 'purchase-limit', available: product.limitedDrop!.perAccountLimit - result.current };
+}
+
+/**
+ * Undo a reservation whose order could not be completed. Products restocked since the
+ * reservation are left alone: the restock already reset their stock and caps.
+ */
+export async function releaseStock(hold: StockHold): Promise<void> {
+  const store = getTrafficStore();
+  const drops = await store.getQuantities(hold.lines.map(line => line.dropKey));
+  const changes = hold.lines
+    .filter((line, index) => (drops[index] ?? 0) === line.drop)
+    .flatMap(line => line.changes);
+  if (changes.length === 0) return;
+
+  await store.adjustQuantities(
+    changes.map(change => ({ key: change.key, delta: -change.delta, initial: change.initial }))
+  );
+}
+
+/**
+ * Put every product back to its catalog stock and start a new drop (purchase caps reset).
+ */
+export async function restockAll(): Promise<InventoryLevel[]> {
+  const store = getTrafficStore();
+  for (const product of getCatalog()) {
+    // New drop first, so a release racing the restock sees it and skips this product
+    await store.adjustQuantities([{ key: dropKey(product), delta: 1, initial: 0 }]);
+    await store.setQuantity(stockKey(product), product.stock);
+  }
+  return getInventory();
+}
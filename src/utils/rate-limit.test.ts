@@ -0,0 +1,67 @@
+// src/utils/rate-limit.test.ts
+import { beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { MemoryTrafficStore, setTrafficStore } from './traffic-store';
+import { checkRateLimit, RATE_LIMITS } from './rate-limit';
+
+const LOGIN = '/api/auth/login';
+const [IP_RULE, ACCOUNT_RULE] = RATE_LIMITS[LOGIN];
+
+setTrafficStore(new MemoryTrafficStore());
+
+let now = Date.parse('2026-01-01T00:00:00.000Z');
+mock.method(Date, 'now', () => now);
+
+let ipCounter = 0;
+let ip = '';
+
+beforeEach(() => {
+  ip = `198.51.100.${++ipCounter}`; // Fresh windows for every test
+});
+
+const request = (fromIp = ip) =>
+  new NextRequest(`http://localhost${LOGIN}`, { method: 'POST', headers: { 'x-real-ip': fromIp } });
+
+test('checkRateLimit blocks an IP past its limit until the window slides', async () => {
+  for (let i = 0; i < IP_RULE.limit; i++) {
+    assert.equal((await checkRateLimit(request(), LOGIN, undefined, 'ip')).allowed, true);
+    now += 1000;
+  }
+
+  const blocked = await checkRateLimit(request(), LOGIN, undefined, 'ip');
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.rule, IP_RULE);
+  // The blocked attempt counts too, so room opens when the second-oldest hit leaves the window
+  assert.equal(blocked.retryAfterSeconds, IP_RULE.windowSeconds - IP_RULE.limit + 1);
+
+  // Another IP is unaffected
+  assert.equal((await checkRateLimit(request('198.51.100.250'), LOGIN, undefined, 'ip')).allowed, true);
+
+  now += blocked.retryAfterSeconds! * 1000;
+  assert.equal((await checkRateLimit(request(), LOGIN, undefined, 'ip')).allowed, true);
+});
+
+test('checkRateLimit keys account windows case-insensitively and ignores non-string accounts', async () => {
+  const account = `Victim${ipCounter}@Example.com`;
+  for (let i = 0; i < ACCOUNT_RULE.limit; i++) {
+    // A different IP each time, as in a distributed attack
+    assert.equal((await checkRateLimit(request(`203.0.113.${i}`), LOGIN, i % 2 ? account : account.toLowerCase())).allowed, true);
+  }
+
+  const blocked = await checkRateLimit(request('203.0.113.200'), LOGIN, ` ${account.toUpperCase()} `);
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.rule, ACCOUNT_RULE);
+
+  const notAString = { email: account } as unknown as string;
+  assert.equal((await checkRateLimit(request('203.0.113.201'), LOGIN, notAString)).allowed, true);
+});
+
+test('checkRateLimit only records hits for the requested scope', async () => {
+  const account = `scoped${ipCounter}@example.com`;
+  for (let i = 0; i < ACCOUNT_RULE.limit + 1; i++) {
+    await checkRateLimit(request(), LOGIN, account, 'ip');
+  }
+  // None of those counted against the account
+  assert.equal((await checkRateLimit(request('203.0.113.220'), LOGIN, account, 'account')).allowed, true);
+});
@@ -0,0 +1,99 @@
+// src/utils/rate-limit.ts
+// Sliding-window rate limits, applied at the top of route handlers rather than in `middleware.ts`:
+// middleware runs on the Edge runtime, which cannot reach the file store, and per-account
+// limits need the parsed request body.
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, logTraffic } from './traffic-logger';
+import { getTrafficStore } from './traffic-store';
+
+export type RateLimitScope = 'ip' | 'account'; // What a window is keyed by
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  limit: number;           // Requests allowed per window
+  windowSeconds: number;
+}
+
+// Rules per endpoint; a request must pass every rule that applies to it
+export const RATE_LIMITS: Record<string, RateLimitRule[]> = {
+  '/api/auth/login': [
+    { scope: 'ip', limit: 20, windowSeconds: 60 },
+    { scope: 'account', limit: 10, windowSeconds: 5 * 60 }, // Above the lockout threshold (account-lockout.ts)
+  ],
+  '/api/auth/captcha-login': [
+    { scope: 'ip', limit: 20, windowSeconds: 60 },
+    { scope: 'account', limit: 10, windowSeconds: 5 * 60 },
+  ],
+  '/api/auth/register': [
+    { scope: 'ip', limit: 10, windowSeconds: 60 },
+  ],
+  '/api/auth/reset-password': [
+    { scope: 'ip', limit: 10, windowSeconds: 60 },
+    { scope: 'account', limit: 3, windowSeconds: 15 * 60 },
+  ],
+  '/api/checkout': [
+    { scope: 'ip', limit: 10, windowSeconds: 60 },
+    { scope: 'account', limit: 5, windowSeconds: 60 },
+  ],
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  rule?: RateLimitRule;       // The rule that blocked the request
+  retryAfterSeconds?: number; // Until the blocking window has room again
+}
+
+/**
+ * Record a hit against every rule for `endpoint` (only rules of `scope`, if given) and decide
+ * whether the request may proceed. Blocked requests count too, so a client that keeps hammering
+ * stays blocked. Fails open if the store is unavailable.
+ */
+export async function checkRateLimit(req: NextRequest, endpoint: string, account?: string, scope?: RateLimitScope): Promise<RateLimitDecision> {
+  const rules = (RATE_LIMITS[endpoint] ?? []).filter(rule => !scope || rule.scope === scope);
+  const now = Date.now();
+  const ip = getClientIp(req);
+
+  try {
+    const results = await Promise.all(rules.map(async rule => {
+      // Bodies are untrusted, so only a string counts as an account
+      const subject = rule.scope === 'ip' ? ip : (typeof account === 'string' ? account.trim().toLowerCase() : null);
+      if (!subject) return null; // e.g. no email in the body
+
+      const key = `${endpoint}:${rule.scope}:${subject}:${rule.windowSeconds}`;
+      const hits = await getTrafficStore().recordRateLimitHit(key, now, rule.windowSeconds);
+      if (hits.length <= rule.limit) return null;
+
+      // Room opens up once enough of the oldest hits slide out of the window
+      const reopensAt = hits[hits.length - rule.limit] + rule.windowSeconds * 1000;
+      return { rule, retryAfterSeconds: Math.max(1, Math.ceil((reopensAt - now) / 1000)) };
+    }));
+
+    const blocked = results
+      .filter((result): result is { rule: RateLimitRule; retryAfterSeconds: number } => result !== null)
+      .sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds)[0];
+
+    return blocked ? { allowed: false, ...blocked } : { allowed: true };
+
+  } catch (error) {
+    console.error(`!!! ERROR checking rate limit for ${endpoint} !!!`, error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Apply the rate limits for `endpoint` (only those of `scope`, if given). Returns a 429 response
+ * (already logged with a `rate-limit:<scope>` reason) if the request is blocked, or null if it may proceed.
+ */
+export async function enforceRateLimit(req: NextRequest, endpoint: string, account?: string, scope?: RateLimitScope): Promise<NextResponse | null> {
+  const decision = await checkRateLimit(req, endpoint, account, scope);
+  if (decision.allowed || !decision.rule) return null;
+
+  const reason = `rate-limit:${decision.rule.scope}`;
+  console.log(`Calling logTraffic for endpoint: ${endpoint} with status: 429 (Too Many Requests - ${reason})`);
+  await logTraffic(req, endpoint, 429, { account, reason });
+
+  return NextResponse.json(
+    { message: 'Too many requests. Please try again later.' },
+    { status: 429, headers: { 'Retry-After': String(decision.retryAfterSeconds) } }
+  );
+}
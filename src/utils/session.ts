@@ -0,0 +1,144 @@
+// src/utils/session.ts
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+import { User, UserRole } from '@/types';
+import { getClientIp } from './traffic-logger';
+import { getTrafficStore } from './traffic-store';
+import { normalizeEmail } from './user-store';
+
+export const SESSION_COOKIE_NAME = 'session';
+const SESSION_NAMESPACE = 'session';
+const REVOCATION_NAMESPACE = 'session-revocation'; // Per account: sessions created up to this time (ms) are void
+const SESSION_TTL_SECONDS = 8 * 60 * 60; // Sessions last 8 hours
+
+export interface Session {
+  id: string;
+  user: User;
+  createdAt: string;
+  expiresAt: string;
+  ip: string;        // Client that logged in
+  userAgent: string;
+}
+
+// The development secret is public, so production refuses to sign or verify cookies without a real one
+const sessionSecret = (): string => {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is not set; refusing to sign or verify session cookies.');
+  }
+  return 'dev-session-secret-change-me';
+};
+
+const sign = (sessionId: string): string =>
+  crypto.createHmac('sha256', sessionSecret()).update(sessionId).digest('base64url');
+
+// Cookie value: `<session id>.<HMAC of the id>`
+const toCookieValue = (sessionId: string): string => `${sessionId}.${sign(sessionId)}`;
+
+/**
+ * Session id from a cookie value, or null if the signature does not match.
+ */
+export function verifySessionCookie(value: string | undefined): string | null {
+  if (!value) return null;
+  const separator = value.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const sessionId = value.slice(0, separator);
+  const given = Buffer.from(value.slice(separator + 1));
+  const expected = Buffer.from(sign(sessionId));
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+  return sessionId;
+}
+
+const loadSession = async (cookieValue: string | undefined): Promise<Session | null> => {
+  const sessionId = verifySessionCookie(cookieValue);
+  if (!sessionId) return null;
+  try {
+    const store = getTrafficStore();
+    const session = await store.getRecord<Session>(SESSION_NAMESPACE, sessionId);
+    if (!session) return null;
+    const revokedUpTo = await store.getRecord<number>(REVOCATION_NAMESPACE, normalizeEmail(session.user.email));
+    return revokedUpTo !== null && Date.parse(session.createdAt) <= revokedUpTo ? null : session;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+};
+
+/**
+ * Start a session for `user` and set its cookie on `response`.
+ */
+export async function createSession(req: NextRequest, response: NextResponse, user: User): Promise<Session> {
+  const now = Date.now();
+  const session: Session = {
+    id: crypto.randomBytes(24).toString('base64url'),
+    user: { id: user.id, name: user.name, email: user.email, role: user.role },
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString(),
+    ip: getClientIp(req),
+    userAgent: req.headers.get('user-agent') || 'unknown',
+  };
+  await getTrafficStore().putRecord(SESSION_NAMESPACE, session.id, session, SESSION_TTL_SECONDS);
+
+  response.cookies.set(SESSION_COOKIE_NAME, toCookieValue(session.id), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return session;
+}
+
+/**
+ * The session behind the request's cookie (route handlers).
+ */
+export async function getSession(req: NextRequest): Promise<Session | null> {
+  return loadSession(req.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * The session behind the current request's cookie (server components and layouts).
+ */
+export async function getCurrentSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  return loadSession(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * End the request's session (if any) and clear its cookie on `response`.
+ */
+export async function destroySession(req: NextRequest, response: NextResponse): Promise<Session | null> {
+  const session = await getSession(req);
+  if (session) {
+    await getTrafficStore().deleteRecord(SESSION_NAMESPACE, session.id);
+  }
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return session;
+}
+
+/**
+ * End every session of `email`, e.g. after a password reset. Sessions are not indexed by account,
+ * so this records a cut-off that loadSession checks (kept as long as a session can live).
+ */
+export async function revokeSessions(email: string): Promise<void> {
+  await getTrafficStore().putRecord(REVOCATION_NAMESPACE, normalizeEmail(email), Date.now(), SESSION_TTL_SECONDS);
+}
+
+/**
+ * Guard for route handlers: null if the request's session has `role`, otherwise the
+ * 401 (no session) or 403 (wrong role) response to return.
+ */
+export async function requireRole(req: NextRequest, role: UserRole): Promise<NextResponse | null> {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ message: 'Not authenticated' }, { status: 401 });
+  }
+  if (session.user.role !== role) {
+    console.warn(`Denied ${req.nextUrl.pathname} to ${session.user.email} (role: ${session.user.role ?? 'none'})`);
+    return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+  }
+  return null;
+}
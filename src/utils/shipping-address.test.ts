@@ -0,0 +1,47 @@
+// src/utils/shipping-address.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ShippingAddress } from '@/types';
+import { toShippingAddress, validateShippingAddress } from './shipping-address';
+
+const US_ADDRESS: ShippingAddress = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  address: '1 Main St',
+  city: 'Springfield',
+  state: 'IL',
+  zipCode: '62701',
+  country: 'United States',
+};
+
+const fieldsWithErrors = (address: Partial<Record<keyof ShippingAddress, unknown>>) =>
+  validateShippingAddress(address).map(error => error.field);
+
+test('validateShippingAddress accepts complete addresses', () => {
+  assert.deepEqual(validateShippingAddress(US_ADDRESS), []);
+  assert.deepEqual(validateShippingAddress({ ...US_ADDRESS, zipCode: '62701-1234' }), []);
+  // The UK does not need a county
+  assert.deepEqual(validateShippingAddress({ ...US_ADDRESS, country: 'United Kingdom', state: '', zipCode: 'SW1A 1AA' }), []);
+});
+
+test('validateShippingAddress checks postal codes and regions per country', () => {
+  assert.deepEqual(fieldsWithErrors({ ...US_ADDRESS, zipCode: 'SW1A 1AA' }), ['zipCode']);
+  assert.deepEqual(fieldsWithErrors({ ...US_ADDRESS, country: 'Canada', state: ' ', zipCode: 'K1A 0B1' }), ['state']);
+
+  const [error] = validateShippingAddress({ ...US_ADDRESS, country: 'Japan', zipCode: '12345' });
+  assert.equal(error.message, 'Postal code is not valid for Japan');
+});
+
+test('validateShippingAddress rejects missing, non-string and unsupported values', () => {
+  assert.deepEqual(fieldsWithErrors({ ...US_ADDRESS, name: '  ', city: 42, email: 'not-an-email' }), ['name', 'email', 'city']);
+  assert.deepEqual(fieldsWithErrors({ ...US_ADDRESS, address: 'x'.repeat(201) }), ['address']);
+  assert.deepEqual(fieldsWithErrors({ ...US_ADDRESS, country: 'Atlantis' }), ['country']);
+  // Inherited object keys are not countries
+  assert.deepEqual(fieldsWithErrors({ ...US_ADDRESS, country: 'constructor' }), ['country']);
+  assert.deepEqual(fieldsWithErrors({}), ['name', 'email', 'address', 'city', 'country']);
+});
+
+test('toShippingAddress keeps only trimmed address fields', () => {
+  const extra = { ...US_ADDRESS, name: ' Ada Lovelace ', isAdmin: true } as ShippingAddress;
+  assert.deepEqual(toShippingAddress(extra), US_ADDRESS);
+});
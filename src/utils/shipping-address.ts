@@ -0,0 +1,84 @@
+// src/utils/shipping-address.ts
+import { ShippingAddress } from '@/types';
+
+// Shared by the checkout form and /api/checkout, so keep this free of server-only imports
+
+export interface CountryAddressRules {
+  regionLabel: string;     // What the `state` field is called there
+  regionRequired: boolean;
+  postalLabel: string;     // What the `zipCode` field is called there
+  postalPattern: RegExp;
+}
+
+export const SHIPPING_COUNTRIES: Record<string, CountryAddressRules> = {
+  'United States': { regionLabel: 'State', regionRequired: true, postalLabel: 'ZIP code', postalPattern: /^\d{5}(-\d{4})?$/ },
+  'Canada': { regionLabel: 'Province', regionRequired: true, postalLabel: 'Postal code', postalPattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i },
+  'United Kingdom': { regionLabel: 'County', regionRequired: false, postalLabel: 'Postcode', postalPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i },
+  'Australia': { regionLabel: 'State', regionRequired: true, postalLabel: 'Postcode', postalPattern: /^\d{4}$/ },
+  'Germany': { regionLabel: 'State', regionRequired: false, postalLabel: 'Postleitzahl', postalPattern: /^\d{5}$/ },
+  'France': { regionLabel: 'Region', regionRequired: false, postalLabel: 'Code postal', postalPattern: /^\d{5}$/ },
+  'Japan': { regionLabel: 'Prefecture', regionRequired: true, postalLabel: 'Postal code', postalPattern: /^\d{3}-?\d{4}$/ },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_FIELD_LENGTH = 200;
+
+export interface AddressError {
+  field: keyof ShippingAddress;
+  message: string;
+}
+
+/**
+ * Problems with `address` for the country it names (empty when it can be shipped to).
+ */
+export function validateShippingAddress(address: Partial<Record<keyof ShippingAddress, unknown>>): AddressError[] {
+  const errors: AddressError[] = [];
+  const text = (field: keyof ShippingAddress): string => {
+    const value = address[field];
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const requireField = (field: keyof ShippingAddress, label: string) => {
+    const value = text(field);
+    if (!value) errors.push({ field, message: `${label} is required` });
+    else if (value.length > MAX_FIELD_LENGTH) errors.push({ field, message: `${label} is too long` });
+  };
+
+  requireField('name', 'Full name');
+  requireField('email', 'Email');
+  if (text('email') && !EMAIL_PATTERN.test(text('email'))) {
+    errors.push({ field: 'email', message: 'Email is not a valid address' });
+  }
+  requireField('address', 'Address');
+  requireField('city', 'City');
+
+  const country = text('country');
+  const rules = Object.hasOwn(SHIPPING_COUNTRIES, country) ? SHIPPING_COUNTRIES[country] : undefined;
+  if (!rules) {
+    errors.push({ field: 'country', message: country ? `We do not ship to ${country}` : 'Country is required' });
+    return errors;
+  }
+
+  if (rules.regionRequired) requireField('state', rules.regionLabel);
+  requireField('zipCode', rules.postalLabel);
+  if (text('zipCode') && !rules.postalPattern.test(text('zipCode'))) {
+    errors.push({ field: 'zipCode', message: `${rules.postalLabel} is not valid for ${country}` });
+  }
+
+  return errors;
+}
+
+/**
+ * Just the address fields, trimmed (call once `validateShippingAddress` has passed).
+ */
+export function toShippingAddress(address: ShippingAddress): ShippingAddress {
+  const field = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  return {
+    name: field(address.name),
+    email: field(address.email),
+    address: field(address.address),
+    city: field(address.city),
+    state: field(address.state),
+    zipCode: field(address.zipCode),
+    country: field(address.country),
+  };
+}
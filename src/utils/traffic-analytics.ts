@@ -0,0 +1,278 @@
+// src/utils/traffic-analytics.ts
+import { PriceTampering, TrafficLog } from '@/types';
+import { getTrafficLogs } from './traffic-logger';
+import { MAX_LOGS } from './traffic-store';
+
+export type TalkerDimension = 'ip' | 'userAgent' | 'country' | 'classification';
+
+export interface TalkerStat {
+  key: string;          // The IP / user agent / country / classification
+  requests: number;
+  failures: number;     // Responses with status >= 400
+  failureRatio: number; // failures / requests (0-1)
+  bots: number;         // Requests flagged as bots
+  firstSeen: string;    // ISO timestamp
+  lastSeen: string;     // ISO timestamp
+}
+
+export interface TopTalkers {
+  since: string;         // ISO timestamp for the start of the window
+  totalRequests: number; // Requests in the window (retained history only)
+  dimensions: Record<TalkerDimension, TalkerStat[]>;
+}
+
+const headerValue = (log: TrafficLog, name: string): string | undefined => {
+  const value = log.headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// How each dimension is read from a log entry
+const DIMENSION_KEYS: Record<TalkerDimension, (log: TrafficLog) => string> = {
+  ip: log => log.realIp ?? log.ip ?? 'unknown',
+  userAgent: log => log.userAgent || 'unknown',
+  country: log => headerValue(log, 'cf-ipcountry') ?? 'unknown',
+  classification: log => headerValue(log, 'x-kasada-classification') ?? 'unclassified',
+};
+
+/**
+ * Aggregate logs into per-key stats, sorted by request count (busiest first).
+ */
+export function aggregateTalkers(logs: TrafficLog[], keyOf: (log: TrafficLog) => string, limit: number): TalkerStat[] {
+  const stats = new Map<string, TalkerStat>();
+
+  for (const log of logs) {
+    const key = keyOf(log);
+    const stat = stats.get(key) ?? {
+      key, requests: 0, failures: 0, failureRatio: 0, bots: 0, firstSeen: log.timestamp, lastSeen: log.timestamp,
+    };
+    stat.requests += 1;
+    if ((log.statusCode ?? 0) >= 400) stat.failures += 1;
+    if (log.isBot) stat.bots += 1;
+    if (log.timestamp < stat.firstSeen) stat.firstSeen = log.timestamp;
+    if (log.timestamp > stat.lastSeen) stat.lastSeen = log.timestamp;
+    stats.set(key, stat);
+  }
+
+  return Array.from(stats.values())
+    .map(stat => ({ ...stat, failureRatio: stat.requests > 0 ? stat.failures / stat.requests : 0 }))
+    .sort((a, b) => b.requests - a.requests || b.failures - a.failures)
+    .slice(0, limit);
+}
+
+/**
+ * Top IPs, user agents, countries (cf-ipcountry) and Kasada classifications since `sinceMs`.
+ */
+export async function getTopTalkers(options: { sinceMs: number; limit: number }): Promise<TopTalkers> {
+  const logs = await getTrafficLogs({ since: options.sinceMs, limit: MAX_LOGS });
+
+  const dimensions = {} as Record<TalkerDimension, TalkerStat[]>;
+  for (const dimension of Object.keys(DIMENSION_KEYS) as TalkerDimension[]) {
+    dimensions[dimension] = aggregateTalkers(logs, DIMENSION_KEYS[dimension], options.limit);
+  }
+
+  return {
+    since: new Date(options.sinceMs).toISOString(),
+    totalRequests: logs.length,
+    dimensions,
+  };
+}
+
+export interface ChallengeStats {
+  since: string;            // ISO timestamp for the start of the window
+  assessed: number;         // Login attempts that were risk-scored
+  allowed: number;          // Scored below the threshold: no CAPTCHA
+  humansSpared: number;     // ...of which not flagged as bots
+  botsAllowed: number;      // ...of which flagged as bots (slipped under the threshold)
+  challenged: number;       // Sent back to solve a CAPTCHA
+  humansChallenged: number;
+  botsChallenged: number;
+  challengesPassed: number; // Retries whose CAPTCHA verified
+  averageScore: number;
+}
+
+/**
+ * Outcomes of the adaptive login challenge since `sinceMs`, from the `risk` field of login logs.
+ */
+export function summarizeChallenges(logs: TrafficLog[], sinceMs: number): ChallengeStats {
+  const stats: ChallengeStats = {
+    since: new Date(sinceMs).toISOString(),
+    assessed: 0, allowed: 0, humansSpared: 0, botsAllowed: 0,
+    challenged: 0, humansChallenged: 0, botsChallenged: 0, challengesPassed: 0, averageScore: 0,
+  };
+  let scoreTotal = 0;
+
+  for (const log of logs) {
+    if (!log.risk) continue;
+
+    if (log.risk.decision === 'allow') {
+      stats.allowed += 1;
+      if (log.isBot) stats.botsAllowed += 1;
+      else stats.humansSpared += 1;
+    } else if (log.reason === 'challenge-required') {
+      stats.challenged += 1;
+      if (log.isBot) stats.botsChallenged += 1;
+      else stats.humansChallenged += 1;
+    } else if (log.captcha?.outcome === 'pass') {
+      stats.challengesPassed += 1;
+      continue; // The retry of an attempt already counted as challenged
+    } else {
+      continue; // A retry whose CAPTCHA failed
+    }
+    stats.assessed += 1;
+    scoreTotal += log.risk.score;
+  }
+
+  stats.averageScore = stats.assessed > 0 ? Math.round(scoreTotal / stats.assessed) : 0;
+  return stats;
+}
+
+export async function getChallengeStats(options: { sinceMs: number }): Promise<ChallengeStats> {
+  const logs = await getTrafficLogs({ endpoint: '/api/auth/login', since: options.sinceMs, limit: MAX_LOGS });
+  return summarizeChallenges(logs, options.sinceMs);
+}
+
+export interface TamperingAttempt {
+  id?: string;
+  timestamp: string;
+  account?: string;
+  ip: string;
+  isBot: boolean;
+  tampering: PriceTampering[];
+}
+
+export interface TamperingStats {
+  since: string;      // ISO timestamp for the start of the window
+  attempts: number;   // Checkouts rejected for altered prices
+  bots: number;       // ...of which flagged as bots
+  accounts: number;   // Distinct accounts behind them
+  ips: number;        // Distinct IPs behind them
+  recent: TamperingAttempt[]; // Newest first
+}
+
+/**
+ * Checkouts rejected with reason 'price-tampered' since `sinceMs`.
+ */
+export function summarizeTampering(logs: TrafficLog[], sinceMs: number, recentLimit: number): TamperingStats {
+  const attempts = logs
+    .filter(log => log.reason === 'price-tampered')
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return {
+    since: new Date(sinceMs).toISOString(),
+    attempts: attempts.length,
+    bots: attempts.filter(log => log.isBot).length,
+    accounts: new Set(attempts.map(log => log.account ?? 'unknown')).size,
+    ips: new Set(attempts.map(DIMENSION_KEYS.ip)).size,
+    recent: attempts.slice(0, recentLimit).map(log => ({
+      id: log.id,
+      timestamp: log.timestamp,
+      account: log.account,
+      ip: DIMENSION_KEYS.ip(log),
+      isBot: log.isBot,
+      tampering: log.tampering ?? [],
+    })),
+  };
+}
+
+export async function getTamperingStats(options: { sinceMs: number; limit: number }): Promise<TamperingStats> {
+  const logs = await getTrafficLogs({ endpoint: '/api/checkout', since: options.sinceMs, limit: MAX_LOGS });
+  return summarizeTampering(logs, options.sinceMs, options.limit);
+}
+
+export interface LatencyPoint {
+  timestamp: number; // Unix seconds for the start of the bucket
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface UpstreamLatency {
+  name: string;
+  count: number;
+  p50: number;
+  p95: number;
+}
+
+export interface EndpointLatency {
+  endpoint: string;
+  count: number;      // Timed requests in the window
+  p50: number;
+  p95: number;
+  p99: number;
+  averageResponseBytes: number | null;
+  upstream: UpstreamLatency[];
+  series: LatencyPoint[]; // Oldest first; buckets without timed requests are left out
+}
+
+export interface LatencyStats {
+  since: string;
+  bucketSeconds: number;
+  endpoints: EndpointLatency[]; // Busiest first
+}
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+const sortedDurations = (logs: TrafficLog[]): number[] =>
+  logs.map(log => log.durationMs as number).sort((a, b) => a - b);
+
+/**
+ * p50/p95/p99 handler time per endpoint since `sinceMs`, overall and per `bucketSeconds` bucket.
+ * Only logs written by timed routes (those with `durationMs`) count.
+ */
+export function summarizeLatency(logs: TrafficLog[], sinceMs: number, bucketSeconds: number): LatencyStats {
+  const byEndpoint = new Map<string, TrafficLog[]>();
+  for (const log of logs) {
+    if (log.durationMs === undefined) continue;
+    byEndpoint.set(log.endpoint, [...(byEndpoint.get(log.endpoint) ?? []), log]);
+  }
+
+  const endpoints = Array.from(byEndpoint, ([endpoint, timed]): EndpointLatency => {
+    const durations = sortedDurations(timed);
+
+    const buckets = new Map<number, TrafficLog[]>();
+    for (const log of timed) {
+      const seconds = Math.floor(new Date(log.timestamp).getTime() / 1000);
+      const bucket = seconds - (seconds % bucketSeconds);
+      buckets.set(bucket, [...(buckets.get(bucket) ?? []), log]);
+    }
+
+    const upstreamCalls = new Map<string, number[]>();
+    for (const call of timed.flatMap(log => log.upstream ?? [])) {
+      upstreamCalls.set(call.name, [...(upstreamCalls.get(call.name) ?? []), call.durationMs]);
+    }
+
+    const sizes = timed.flatMap(log => log.responseBytes ?? []);
+    return {
+      endpoint,
+      count: timed.length,
+      p50: percentile(durations, 50),
+      p95: percentile(durations, 95),
+      p99: percentile(durations, 99),
+      averageResponseBytes: sizes.length > 0 ? Math.round(sizes.reduce((sum, size) => sum + size, 0) / sizes.length) : null,
+      upstream: Array.from(upstreamCalls, ([name, calls]) => {
+        const sorted = [...calls].sort((a, b) => a - b);
+        return { name, count: sorted.length, p50: percentile(sorted, 50), p95: percentile(sorted, 95) };
+      }),
+      series: Array.from(buckets, ([timestamp, bucketLogs]) => {
+        const bucketDurations = sortedDurations(bucketLogs);
+        return {
+          timestamp,
+          count: bucketLogs.length,
+          p50: percentile(bucketDurations, 50),
+          p95: percentile(bucketDurations, 95),
+          p99: percentile(bucketDurations, 99),
+        };
+      }).sort((a, b) => a.timestamp - b.timestamp),
+    };
+  }).sort((a, b) => b.count - a.count);
+
+  return { since: new Date(sinceMs).toISOString(), bucketSeconds, endpoints };
+}
+
+export async function getLatencyStats(options: { sinceMs: number; bucketSeconds: number }): Promise<LatencyStats> {
+  const logs = await getTrafficLogs({ since: options.sinceMs, limit: MAX_LOGS });
+  return summarizeLatency(logs, options.sinceMs, options.bucketSeconds);
+}
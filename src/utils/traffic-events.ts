@@ -0,0 +1,23 @@
+// src/utils/traffic-events.ts
+import { EventEmitter } from 'events';
+import { TrafficLog } from '@/types';
+
+// In-process notifications for freshly written logs. Streams use this to wake up
+// immediately; they still poll the store to pick up writes from other instances.
+const globalForEvents = globalThis as unknown as { __trafficEvents?: EventEmitter };
+const emitter = (globalForEvents.__trafficEvents ??= new EventEmitter());
+emitter.setMaxListeners(0); // One listener per open dashboard stream
+
+export function emitTrafficLogged(entry: TrafficLog): void {
+  emitter.emit('logged', entry);
+}
+
+/**
+ * Subscribe to logs written by this process. Returns an unsubscribe function.
+ */
+export function onTrafficLogged(listener: (entry: TrafficLog) => void): () => void {
+  emitter.on('logged', listener);
+  return () => {
+    emitter.off('logged', listener);
+  };
+}
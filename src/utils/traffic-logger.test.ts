@@ -0,0 +1,51 @@
+// src/utils/traffic-logger.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loggableHeaders, MAX_COUNTER_KEYS, pickCounterResolution, REDACTED_HEADER } from './traffic-logger';
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+test('pickCounterResolution keeps the interval resolution when few counters are read', () => {
+  assert.equal(pickCounterResolution(10 * MINUTE, 1).seconds, 1);
+  assert.equal(pickCounterResolution(24 * HOUR, MINUTE).seconds, MINUTE);
+  assert.equal(pickCounterResolution(7 * 24 * HOUR, HOUR).seconds, HOUR);
+});
+
+test('pickCounterResolution falls back to coarser rollups past MAX_COUNTER_KEYS', () => {
+  // 602 one-second buckets per counter
+  const underCap = Math.floor(MAX_COUNTER_KEYS / 602);
+  assert.equal(pickCounterResolution(10 * MINUTE, 1, underCap).seconds, 1);
+  assert.equal(pickCounterResolution(10 * MINUTE, 1, underCap + 1).seconds, MINUTE);
+
+  // A day of 1-minute buckets for 20 counters is 28,840 keys
+  assert.equal(pickCounterResolution(24 * HOUR, MINUTE, 20).seconds, HOUR);
+});
+
+test('pickCounterResolution uses the coarsest rollup when nothing fits under the cap', () => {
+  assert.equal(pickCounterResolution(24 * HOUR, MINUTE, MAX_COUNTER_KEYS).seconds, HOUR);
+});
+
+test('loggableHeaders redacts credential headers', () => {
+  const headers = new Headers({
+    Cookie: 'session=abc.def; cart_id=xyz',
+    Authorization: 'Bearer secret',
+    'Proxy-Authorization': 'Basic c2VjcmV0',
+    'User-Agent': 'curl/8.0',
+    'X-Forwarded-For': '203.0.113.7',
+  });
+
+  const logged = loggableHeaders(headers);
+
+  assert.equal(logged.cookie, REDACTED_HEADER);
+  assert.equal(logged.authorization, REDACTED_HEADER);
+  assert.equal(logged['proxy-authorization'], REDACTED_HEADER);
+  assert.equal(logged['user-agent'], 'curl/8.0');
+  assert.equal(logged['x-forwarded-for'], '203.0.113.7');
+  assert.ok(!JSON.stringify(logged).includes('abc.def'));
+});
+
+test('loggableHeaders keeps requests without credentials unchanged', () => {
+  const headers = new Headers({ Accept: 'application/json' });
+  assert.deepEqual(loggableHeaders(headers), { accept: 'application/json' });
+});
@@ -1,21 +1,30 @@
 // src/utils/traffic-logger.ts
-import { NextRequest } from 'next/server';
-import { redis } from './redis-client';
-import { TrafficLog } from '@/types';
-
-// --- Redis Constants ---
-const LOG_PREFIX = 'traffic:log:';
-const LOGS_LIST_KEY = 'traffic:logs';
-const MAX_LOGS = 1000; // Max detailed logs to keep
-
-// --- NEW: Dashboard Counter Constants ---
-const DASHBOARD_COUNTER_PREFIX = 'dashboard:count:';
-const COUNTER_GRANULARITY_SECONDS = 1; // Store counts per second
-const COUNTER_EXPIRY_SECONDS = 15 * 60; // Keep counters for 15 minutes
-
-// --- Helper Function to get Client IP (Keep Existing) ---
-const getClientIp = (request: NextRequest): string => {
-    let chosenIp = 'unknown';
+import { after, NextRequest } from 'next/server';
+import { TrafficLog, UpstreamCall } from '@/types';
+import {
+    getTrafficStore,
+    TrafficLogQuery,
+    TrafficLogPage,
+    CounterResolution,
+    COUNTER_RESOLUTIONS,
+    bucketStart,
+} from './traffic-store';
+import { emitTrafficLogged } from './traffic-events';
+import { redactBody } from './body-redaction';
+
+// --- Dashboard counter segments ---
+// Counters are named `<endpoint>|<bot|human>:<status class>`, e.g. `/api/auth/login|bot:4xx`.
+// Rate-limited requests (429) get their own `limited` class so they can be charted apart from other 4xx.
+const SEGMENT_SEPARATOR = '|';
+
+export const statusClassOf = (status: number): string =>
+    status === 429 ? 'limited' : `${Math.floor(status / 100)}xx`;
+
+export const counterSegmentOf = (isBot: boolean, status: number): string =>
+    `${isBot ? 'bot' : 'human'}:${statusClassOf(status)}`;
+
+// --- Helper Function to get Client IP ---
+export const getClientIp = (request: NextRequest): string => {
     const cfIp = request.headers.get('cf-connecting-ip');
     if (cfIp) return cfIp;
     const realIp = request.headers.get('x-real-ip');
@@ -25,203 +34,294 @@ const getClientIp = (request: NextRequest): string => {
         const ips = xff.split(',').map(ip => ip.trim());
         if (ips.length > 0 && ips[0]) return ips[0];
     }
-    return chosenIp;
+    return 'unknown';
 };
 // --- End Helper Function ---
 
+// Headers that carry credentials (the session and cart cookies, bearer tokens). Log entries are
+// shown back on the dashboard, so they keep that the header was sent but never its value.
+const SENSITIVE_HEADERS = new Set(['cookie', 'set-cookie', 'authorization', 'proxy-authorization']);
+export const REDACTED_HEADER = '[redacted]';
+
+/**
+ * Request headers as stored on a log entry, with credential headers redacted.
+ */
+export const loggableHeaders = (headers: Headers): Record<string, string> =>
+    Object.fromEntries(Array.from(headers.entries(), ([name, value]) =>
+        [name, SENSITIVE_HEADERS.has(name.toLowerCase()) ? REDACTED_HEADER : value]));
+
+// --- Request body capture ---
+// Off unless TRAFFIC_BODY_CAPTURE=true. Routes read JSON bodies through `readJsonBody`, which
+// remembers each request's body so every log entry written for that request can carry it (redacted).
+export const isBodyCaptureEnabled = (): boolean => process.env.TRAFFIC_BODY_CAPTURE === 'true';
+
+const requestBodies = new WeakMap<NextRequest, unknown>();
+
+/**
+ * `await req.json()`, keeping the parsed body for the request's traffic logs.
+ */
+export async function readJsonBody<T>(req: NextRequest): Promise<T> {
+    const body = await req.json();
+    requestBodies.set(req, body);
+    return body;
+}
+
+// --- Handler timing ---
+// Routes wrapped in `withTrafficTiming` write their log entries as usual (so readers see them in
+// timestamp order, and checks later in the same handler see them too), then patch them once the
+// response has been sent with how long the handler took, the response size and any upstream
+// calls (see `recordUpstreamCall`) made along the way.
+interface RequestTiming {
+    startedAt: number;
+    upstream: UpstreamCall[];
+    logged: { id: string; written: Promise<void> }[];
+}
+
+const requestTimings = new WeakMap<NextRequest, RequestTiming>();
+
+// Reads `response`'s body, so pass a clone of one that is still to be sent
+const responseBytesOf = async (response: Response): Promise<number | undefined> => {
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > 0) return contentLength;
+    try {
+        return (await response.arrayBuffer()).byteLength;
+    } catch {
+        return undefined;
+    }
+};
+
+const recordTimings = async (timing: RequestTiming, durationMs: number, response: Response | undefined): Promise<void> => {
+    const responseBytes = response ? await responseBytesOf(response) : undefined;
+    const patch: Partial<TrafficLog> = { durationMs, responseBytes };
+    if (timing.upstream.length > 0) patch.upstream = timing.upstream;
+    for (const { id, written } of timing.logged) {
+        await written;
+        try {
+            await getTrafficStore().updateLog(id, patch);
+        } catch (error) {
+            console.error(`!!! ERROR recording timing for traffic log ${id} !!!`, error);
+        }
+    }
+};
+
 /**
- * Log traffic data to Redis (Write operations)
+ * Wrap a route handler so the traffic logs it writes carry `durationMs`, `responseBytes`
+ * and `upstream`. Not for streaming responses: the body is read to measure it.
+ */
+export function withTrafficTiming<Context>(
+    handler: (req: NextRequest, context: Context) => Promise<Response>
+): (req: NextRequest, context: Context) => Promise<Response> {
+    return async (req, context) => {
+        const timing: RequestTiming = { startedAt: performance.now(), upstream: [], logged: [] };
+        requestTimings.set(req, timing);
+        let response: Response | undefined;
+        try {
+            response = await handler(req, context);
+            return response;
+        } finally {
+            const durationMs = Math.round(performance.now() - timing.startedAt);
+            requestTimings.delete(req);
+            // Clone before the response is sent; the patches wait until after, so they add no latency
+            const measured = response?.clone();
+            after(() => recordTimings(timing, durationMs, measured).catch(error =>
+                console.error('!!! ERROR recording traffic log timings !!!', error)));
+        }
+    };
+}
+
+/**
+ * Note an outbound call on the request's traffic logs (only inside `withTrafficTiming`).
+ */
+export function recordUpstreamCall(req: NextRequest, call: UpstreamCall): void {
+    requestTimings.get(req)?.upstream.push(call);
+}
+
+// Optional fields a route can attach to its log entry
+export type TrafficLogDetails = Pick<TrafficLog, 'account' | 'reason' | 'captcha' | 'risk' | 'tampering'>;
+
+/**
+ * Log traffic data to the configured TrafficStore (Write operations)
  * - Stores full log details (limited history)
  * - Increments dashboard counters (efficient aggregation)
+ * Returns the new entry's id, or undefined if logging failed.
  */
-export async function logTraffic(req: NextRequest, endpoint: string, status: number): Promise<void> {
+export async function logTraffic(req: NextRequest, endpoint: string, status: number, details: TrafficLogDetails = {}): Promise<string | undefined> {
   try {
-    const now = new Date();
-    const timestamp = now.toISOString();
-    const timestampSeconds = Math.floor(now.getTime() / 1000); // For counter key
-
-    // --- Prepare Full Log Entry (Existing Logic) ---
-    const logId = `${LOG_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
-    const score = Date.now(); // For sorted set
     const clientIp = getClientIp(req);
+    const now = new Date();
+    const id = `${now.getTime()}-${Math.random().toString(36).substring(2, 10)}`;
     const fullLogEntry: TrafficLog = {
-      timestamp,
+      id,
+      timestamp: now.toISOString(),
       endpoint,
+      url: req.nextUrl.pathname + req.nextUrl.search,
       method: req.method,
       ip: clientIp,
       realIp: clientIp,
       userAgent: req.headers.get('user-agent') || 'unknown',
       isBot: req.headers.get('x-kasada-classification') === 'bad-bot',
       statusCode: status,
-      headers: Object.fromEntries(req.headers.entries())
+      ...details,
+      headers: loggableHeaders(req.headers)
     };
-    const jsonData = JSON.stringify(fullLogEntry);
-
-    // --- Prepare Dashboard Counter Update (New Logic) ---
-    // Only count relevant endpoints for the dashboard
-    if (endpoint === '/api/auth/login' || endpoint === '/api/checkout') {
-        const bucketTimestamp = Math.floor(timestampSeconds / COUNTER_GRANULARITY_SECONDS) * COUNTER_GRANULARITY_SECONDS;
-        const counterKey = `${DASHBOARD_COUNTER_PREFIX}${endpoint}:${bucketTimestamp}`;
-
-        // --- Perform Redis Write Operations ---
-        const pipeline = redis.pipeline();
-
-        // 1. Increment the counter for the specific second
-        pipeline.incr(counterKey);
-        // 2. Set expiry for the counter key *only if it's newly created* (INCR returns 1 if new)
-        //    Alternatively, simpler: always set expiry (slightly more writes, but handles edge cases)
-        pipeline.expire(counterKey, COUNTER_EXPIRY_SECONDS);
-
-        // 3. Store the full log entry (Existing)
-        pipeline.set(logId, jsonData, { ex: 1800 }); // Keep full log for 30 mins
-        // 4. Add log ID to the sorted set (Existing)
-        pipeline.zadd(LOGS_LIST_KEY, { score: score, member: logId });
-        // 5. Trim the sorted set of full logs (Existing)
-        pipeline.zremrangebyrank(LOGS_LIST_KEY, 0, -(MAX_LOGS + 1));
-
-        // Execute all commands in a single transaction
-        await pipeline.exec();
-
-    } else {
-        // For endpoints not tracked on the dashboard, just store the full log
-        const pipeline = redis.pipeline();
-        pipeline.set(logId, jsonData, { ex: 1800 });
-        pipeline.zadd(LOGS_LIST_KEY, { score: score, member: logId });
-        pipeline.zremrangebyrank(LOGS_LIST_KEY, 0, -(MAX_LOGS + 1));
-        await pipeline.exec();
+    if (isBodyCaptureEnabled() && requestBodies.has(req)) {
+      fullLogEntry.body = redactBody(requestBodies.get(req));
     }
 
+    const written = writeLogEntry(fullLogEntry);
+    requestTimings.get(req)?.logged.push({ id, written });
+    await written;
+    return id;
+
   } catch (error) {
     console.error(`!!! ERROR in logTraffic function for ${endpoint} !!!`, error);
   }
 }
 
+async function writeLogEntry(entry: TrafficLog): Promise<void> {
+  try {
+    // Every endpoint gets per-second dashboard counters, split by bot/human and status class
+    const counterName = `${entry.endpoint}${SEGMENT_SEPARATOR}${counterSegmentOf(entry.isBot, entry.statusCode ?? 0)}`;
+    await getTrafficStore().appendLog(entry, [counterName]);
+
+    // Wake up any live dashboard streams in this process
+    emitTrafficLogged(entry);
+  } catch (error) {
+    console.error(`!!! ERROR writing traffic log for ${entry.endpoint} !!!`, error);
+  }
+}
+
 /**
- * Get *historical* traffic logs (for detailed analysis, NOT dashboard)
- * (Keep existing implementation for fetching detailed logs if needed elsewhere)
+ * Get one page of *historical* traffic logs (for detailed analysis, NOT dashboard).
+ * Filtering happens in the store before `limit`; follow `nextCursor` for older pages.
  */
-export async function getTrafficLogs(options: {
-  endpoint?: string;
-  method?: string;
-  isBot?: boolean;
-  since?: number; // Expects timestamp in milliseconds
-  limit?: number;
-} = {}): Promise<TrafficLog[]> {
-    // console.log(`--- ENTERING getTrafficLogs function with options:`, options);
+export async function getTrafficLogPage(options: TrafficLogQuery = {}): Promise<TrafficLogPage> {
     try {
-        let logIds: string[] = [];
-        // Adjust minScore calculation if needed based on how 'since' is used
-        const minScore: number = options.since ? options.since + 1 : 0; // Use ms timestamp directly for score
-        const maxScore: number = Number.MAX_SAFE_INTEGER;
-
-        // Fetch log IDs from the sorted set based on score (timestamp)
-        logIds = await redis.zrange(LOGS_LIST_KEY, minScore, maxScore, {
-            byScore: true,
-        });
-
-        // Apply limit *after* fetching relevant IDs if necessary
-        if (options.limit && logIds.length > options.limit) {
-            logIds = logIds.slice(-options.limit); // Get the newest ones if limited
-        }
-
-        if (logIds.length === 0) {
-            // console.log("No log IDs found for the given criteria.");
-            return [];
-        }
-
-        // Fetch full log data using MGET
-        const logData: (unknown | null)[] = await redis.mget(...logIds);
-        // console.log(`Retrieved ${logData.length} items via mget.`);
-
-        // Process and filter fetched data
-        const logs: TrafficLog[] = logData
-            .filter((data): data is Record<string, unknown> => data !== null && typeof data === 'object')
-            .map((data: Record<string, unknown>): TrafficLog => data as unknown as TrafficLog)
-            .filter(log => {
-                 // Apply post-fetch filters
-                 let keep = true;
-                 if (options.endpoint && log.endpoint !== options.endpoint) keep = false;
-                 if (options.method && log.method !== options.method) keep = false;
-                 if (options.isBot !== undefined && log.isBot !== options.isBot) keep = false;
-                 return keep;
-             });
-
-        // Sort logs newest first
-        const sortedLogs = logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-        // console.log(`Returning ${sortedLogs.length} sorted logs from getTrafficLogs.`);
-        return sortedLogs;
-
+        return await getTrafficStore().queryLogs(options);
     } catch (error) {
         console.error('!!! ERROR retrieving detailed traffic logs !!!', error);
-        return [];
+        return { logs: [], nextCursor: null };
     }
 }
 
-// --- NEW: Function specifically for dashboard data ---
-interface DashboardDataPoint {
+/**
+ * Get *historical* traffic logs as a plain list (first page only), newest first.
+ */
+export async function getTrafficLogs(options: TrafficLogQuery = {}): Promise<TrafficLog[]> {
+    return (await getTrafficLogPage(options)).logs;
+}
+
+// --- Function specifically for dashboard data ---
+export interface DashboardDataPoint {
     timestamp: number; // Unix timestamp (seconds) for the start of the interval
-    loginCount: number;
-    checkoutCount: number;
+    count: number;     // Total across all segments
+    segments: Record<string, number>; // e.g. { 'human:2xx': 12, 'bot:4xx': 40 }
+}
+
+// Endpoint -> aggregated series
+export type DashboardSeries = Record<string, DashboardDataPoint[]>;
+
+export interface DashboardCounts {
+    resolutionSeconds: number; // Counter resolution the series were read from
+    intervalSeconds: number;   // Interval actually used (widened if the requested one was finer than the resolution)
+    series: DashboardSeries;
+}
+
+// Most counter keys (counter names x buckets) one dashboard read may fetch
+export const MAX_COUNTER_KEYS = 20000;
+
+/**
+ * Pick the coarsest counter resolution that is still retained for the whole window and
+ * divides the interval evenly (or, failing that, is no wider than the interval).
+ * If every retained resolution is wider than the interval, use the finest of them;
+ * the caller widens the interval to a multiple of the chosen resolution.
+ * If reading `counterCount` counters at that resolution would pass MAX_COUNTER_KEYS
+ * (e.g. a day of 1-minute buckets), the finest coarser resolution that stays under it is used.
+ */
+export function pickCounterResolution(windowSeconds: number, intervalSeconds: number, counterCount = 1): CounterResolution {
+    const coarsestFirst = [...COUNTER_RESOLUTIONS].sort((a, b) => b.seconds - a.seconds);
+    const covering = coarsestFirst.filter(r => windowSeconds <= r.expirySeconds);
+    if (covering.length === 0) return coarsestFirst[0];
+
+    const preferred = covering.find(r => intervalSeconds % r.seconds === 0)
+        ?? covering.find(r => r.seconds <= intervalSeconds)
+        ?? covering[covering.length - 1];
+
+    const keysAt = (r: CounterResolution) => (Math.floor(windowSeconds / r.seconds) + 2) * counterCount;
+    if (keysAt(preferred) <= MAX_COUNTER_KEYS) return preferred;
+    return [...covering].reverse().find(r => r.seconds > preferred.seconds && keysAt(r) <= MAX_COUNTER_KEYS)
+        ?? covering[0];
 }
 
 /**
- * Fetches aggregated traffic counts for the dashboard.
+ * Fetches aggregated traffic counts for the dashboard, one series per endpoint,
+ * with each point broken down by bot/human and status class.
  */
 export async function getDashboardTrafficCounts(options: {
     startTimeSeconds: number; // Unix timestamp (seconds) for the start of the overall window
     endTimeSeconds: number;   // Unix timestamp (seconds) for the end of the overall window
     intervalSeconds: number;  // Desired interval for aggregation (e.g., 60 for 1 minute)
-}): Promise<DashboardDataPoint[]> {
-    const { startTimeSeconds, endTimeSeconds, intervalSeconds } = options;
-    const results: DashboardDataPoint[] = [];
+}): Promise<DashboardCounts> {
+    const { endTimeSeconds } = options;
+    const store = getTrafficStore();
+    let counterNames: string[] = [];
+    try {
+        counterNames = await store.getCounterNames();
+    } catch (error) {
+        console.error('!!! ERROR retrieving dashboard counter names !!!', error);
+    }
+
+    const resolution = pickCounterResolution(endTimeSeconds - options.startTimeSeconds, options.intervalSeconds, counterNames.length);
+    const intervalSeconds = Math.ceil(options.intervalSeconds / resolution.seconds) * resolution.seconds;
+    const startTimeSeconds = bucketStart(options.startTimeSeconds, intervalSeconds);
+    const series: DashboardSeries = {};
+    const result: DashboardCounts = { resolutionSeconds: resolution.seconds, intervalSeconds, series };
 
     try {
-        const loginKeys: string[] = [];
-        const checkoutKeys: string[] = [];
-
-        // Generate all the 1-second granularity keys we might need within the window
-        for (let ts = startTimeSeconds; ts <= endTimeSeconds; ts += COUNTER_GRANULARITY_SECONDS) {
-            const bucketTimestamp = Math.floor(ts / COUNTER_GRANULARITY_SECONDS) * COUNTER_GRANULARITY_SECONDS;
-            loginKeys.push(`${DASHBOARD_COUNTER_PREFIX}/api/auth/login:${bucketTimestamp}`);
-            checkoutKeys.push(`${DASHBOARD_COUNTER_PREFIX}/api/checkout:${bucketTimestamp}`);
-        }
+        if (counterNames.length === 0) return result;
 
-        // Fetch all counts in one go using MGET
-        const allKeys = [...loginKeys, ...checkoutKeys];
-        if (allKeys.length === 0) return [];
-
-        const counts = await redis.mget<number[]>(...allKeys);
-
-        // Create a map for easy lookup: key -> count
-        const countMap = new Map<string, number>();
-        allKeys.forEach((key, index) => {
-            countMap.set(key, counts[index] ?? 0); // Use 0 if key doesn't exist (no traffic in that second)
-        });
-
-        // Aggregate into the desired intervals
-        for (let intervalStart = startTimeSeconds; intervalStart < endTimeSeconds; intervalStart += intervalSeconds) {
-            let loginSum = 0;
-            let checkoutSum = 0;
-            const intervalEnd = intervalStart + intervalSeconds;
-
-            // Sum the 1-second counts within this interval
-            for (let ts = intervalStart; ts < intervalEnd; ts += COUNTER_GRANULARITY_SECONDS) {
-                 const bucketTimestamp = Math.floor(ts / COUNTER_GRANULARITY_SECONDS) * COUNTER_GRANULARITY_SECONDS;
-                 loginSum += countMap.get(`${DASHBOARD_COUNTER_PREFIX}/api/auth/login:${bucketTimestamp}`) ?? 0;
-                 checkoutSum += countMap.get(`${DASHBOARD_COUNTER_PREFIX}/api/checkout:${bucketTimestamp}`) ?? 0;
+        // Generate all the buckets at the chosen resolution within the window
+        const buckets: number[] = [];
+        for (let ts = startTimeSeconds; ts <= endTimeSeconds; ts += resolution.seconds) {
+            buckets.push(ts);
+        }
+        if (buckets.length === 0) return result;
+
+        // Fetch all counts in one go
+        const counts = await store.getCounts(counterNames, buckets, resolution.seconds);
+        const bucketIndex = new Map<number, number>();
+        buckets.forEach((bucket, index) => bucketIndex.set(bucket, index));
+
+        for (const name of counterNames.sort()) {
+            // Legacy counters (before segmentation) have no segment and only add to the total
+            const [endpoint, segment] = name.split(SEGMENT_SEPARATOR);
+            if (!series[endpoint]) {
+                series[endpoint] = [];
+                for (let intervalStart = startTimeSeconds; intervalStart < endTimeSeconds; intervalStart += intervalSeconds) {
+                    series[endpoint].push({
+                        timestamp: intervalStart, // Timestamp for the beginning of the interval
+                        count: 0,
+                        segments: {},
+                    });
+                }
             }
 
-            results.push({
-                timestamp: intervalStart, // Timestamp for the beginning of the interval
-                loginCount: loginSum,
-                checkoutCount: checkoutSum,
-            });
+            // Sum the bucket counts within each interval
+            for (const point of series[endpoint]) {
+                let sum = 0;
+                for (let ts = point.timestamp; ts < point.timestamp + intervalSeconds; ts += resolution.seconds) {
+                    const index = bucketIndex.get(ts);
+                    if (index !== undefined) sum += counts[name]?.[index] ?? 0;
+                }
+                point.count += sum;
+                if (segment) point.segments[segment] = (point.segments[segment] ?? 0) + sum;
+            }
         }
 
-        return results;
+        return result;
 
     } catch (error) {
         console.error('!!! ERROR retrieving dashboard traffic counts !!!', error);
-        return []; // Return empty array on error
+        return { ...result, series: {} }; // Return empty series on error
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+// src/utils/traffic-sim/index.ts
+import crypto from 'crypto';
+import { runSimulation } from './runner';
+import { SimOptions, SimReport, SimScenarioName, SimSettings } from './types';
+
+export * from './types';
+export { SIM_SCENARIOS, isSimScenarioName } from './scenarios';
+export {
+  runSimulation, resolveSimSettings, simSettingsProblem,
+  MAX_SIM_REQUESTS, MAX_SIM_RATE_PER_SECOND, MAX_SIM_CONCURRENCY,
+} from './runner';
+export { replayTraffic, toReplayRequest, MAX_REPLAY_REQUESTS, MAX_REPLAY_CONCURRENCY } from './replay';
+export type { ReplayOptions, ReplayReport, ReplayStatusChange } from './replay';
+
+/**
+ * Whether /api/sim may start runs. Off in production unless SIM_ENABLED=true, since a run
+ * sends real (if fake-looking) traffic through the shop.
+ */
+export const isSimEnabled = (): boolean =>
+  process.env.NODE_ENV !== 'production' || process.env.SIM_ENABLED === 'true';
+
+// Runs started from /api/sim, kept in this process so the dashboard can poll them
+export interface SimRun {
+  id: string;
+  scenario: SimScenarioName;
+  settings: SimSettings;
+  status: 'running' | 'finished' | 'stopped' | 'failed';
+  startedAt: string;
+  report?: SimReport;
+  error?: string;
+}
+
+const MAX_KEPT_RUNS = 20;
+// On globalThis so runs survive module reloads in `next dev`
+const globalForSim = globalThis as unknown as { __simRuns?: Map<string, { run: SimRun; controller: AbortController }> };
+const runs = (globalForSim.__simRuns ??= new Map());
+
+/**
+ * Start a simulation in the background and return its run (poll with `getSimRuns`).
+ */
+export function startSimRun(options: Omit<SimOptions, 'signal' | 'onProgress'>, settings: SimSettings): SimRun {
+  const controller = new AbortController();
+  const run: SimRun = {
+    id: crypto.randomBytes(6).toString('hex'),
+    scenario: options.scenario,
+    settings,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+  };
+  runs.set(run.id, { run, controller });
+
+  // Forget the oldest runs (Map keeps insertion order)
+  for (const id of runs.keys()) {
+    if (runs.size <= MAX_KEPT_RUNS) break;
+    if (runs.get(id)?.run.status !== 'running') runs.delete(id);
+  }
+
+  runSimulation({ ...options, signal: controller.signal, onProgress: report => { run.report = report; } })
+    .then(report => {
+      run.report = report;
+      run.status = report.stopped ? 'stopped' : 'finished';
+    })
+    .catch(error => {
+      console.error(`Simulation ${run.id} failed:`, error);
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+    });
+
+  return run;
+}
+
+/**
+ * Abort a running simulation. False if there is no such run or it already ended.
+ */
+export function stopSimRun(id: string): boolean {
+  const entry = runs.get(id);
+  if (!entry || entry.run.status !== 'running') return false;
+  entry.controller.abort();
+  return true;
+}
+
+/**
+ * Runs started in this process, newest first.
+ */
+export function getSimRuns(): SimRun[] {
+  return Array.from(runs.values(), entry => entry.run).reverse();
+}
@@ -0,0 +1,166 @@
+// src/utils/traffic-sim/replay.ts
+import { TrafficLog } from '@/types';
+import { sleepUntil } from './runner';
+
+export const MAX_REPLAY_REQUESTS = 10000;
+export const MAX_REPLAY_CONCURRENCY = 50;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Not replayed: set by fetch for the new connection, or credentials (logged redacted, and a real user's anyway)
+const SKIPPED_HEADERS = new Set([
+  'host', 'connection', 'content-length', 'transfer-encoding', 'keep-alive', 'upgrade', 'expect',
+  'cookie', 'authorization', 'proxy-authorization',
+]);
+const CLIENT_IP_HEADERS = ['cf-connecting-ip', 'x-real-ip', 'x-forwarded-for'];
+
+export interface ReplayOptions {
+  logs: TrafficLog[];
+  baseUrl: string;
+  timing: 'original' | 'none'; // Keep the gaps between requests, or send as fast as `concurrency` allows
+  speed?: number;              // Original timing only: 2 replays twice as fast (default 1)
+  concurrency?: number;        // No timing only (default 5)
+  signal?: AbortSignal;
+}
+
+// How many requests went from one status to another on an endpoint
+export interface ReplayStatusChange {
+  endpoint: string;
+  from: string; // Original status ('unknown' if the log has none)
+  to: string;   // Replayed status ('error' when there was no response)
+  count: number;
+}
+
+export interface ReplayReport {
+  baseUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  sent: number;
+  notReplayable: number;            // Requests that carried a body, which is logged redacted if at all, so were skipped
+  stopped: boolean;
+  original: Record<string, number>; // Status -> count in the captured logs
+  replayed: Record<string, number>; // Status -> count in the replay
+  unchanged: number;
+  changes: ReplayStatusChange[];    // Only endpoints/statuses that differ, most frequent first
+}
+
+/**
+ * Whether the logged request carried a body. Bodies are logged redacted (passwords dropped,
+ * emails hashed), so such requests cannot be re-sent faithfully.
+ */
+export function hadRequestBody(log: TrafficLog): boolean {
+  const headers = log.headers ?? {};
+  return log.body !== undefined
+    || Number(headers['content-length'] ?? 0) > 0
+    || headers['transfer-encoding'] !== undefined;
+}
+
+/**
+ * The request a log entry describes, as it should be re-sent.
+ */
+export function toReplayRequest(log: TrafficLog): { method: string; path: string; headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(log.headers ?? {})) {
+    if (value === undefined || SKIPPED_HEADERS.has(name.toLowerCase())) continue;
+    headers[name] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  // The original client may have connected directly; keep its address visible to the app
+  const ip = log.realIp ?? log.ip;
+  if (!CLIENT_IP_HEADERS.some(name => headers[name]) && ip && ip !== 'unknown') {
+    headers['x-forwarded-for'] = ip;
+  }
+  return { method: log.method, path: log.url ?? log.endpoint, headers };
+}
+
+const replayOne = async (baseUrl: string, log: TrafficLog, signal?: AbortSignal): Promise<string> => {
+  const { method, path, headers } = toReplayRequest(log);
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(new URL(path, baseUrl), {
+      method,
+      headers,
+      redirect: 'manual',
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    await response.arrayBuffer();
+    return String(response.status);
+  } catch {
+    return 'error';
+  }
+};
+
+/**
+ * Re-send captured requests to `options.baseUrl` (oldest first) and compare the status
+ * codes with the ones originally logged. Requests that had a body are skipped and counted as
+ * `notReplayable`: without it the app would only answer with a parse error.
+ */
+export async function replayTraffic(options: ReplayOptions): Promise<ReplayReport> {
+  const { baseUrl, signal } = options;
+  const speed = options.speed ?? 1;
+  const concurrency = options.concurrency ?? 5;
+  if (!(speed > 0)) throw new Error('speed must be above 0');
+  if (!Number.isInteger(concurrency) || concurrency <= 0 || concurrency > MAX_REPLAY_CONCURRENCY) {
+    throw new Error(`concurrency must be a whole number from 1 to ${MAX_REPLAY_CONCURRENCY}`);
+  }
+  if (options.logs.length > MAX_REPLAY_REQUESTS) {
+    throw new Error(`At most ${MAX_REPLAY_REQUESTS} requests can be replayed at once`);
+  }
+
+  const logs = options.logs.filter(log => !hadRequestBody(log)).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const notReplayable = options.logs.length - logs.length;
+  const outcomes: (string | undefined)[] = new Array(logs.length);
+  const startedAt = Date.now();
+
+  if (options.timing === 'original') {
+    // Open loop: each request leaves at its (scaled) original offset, however slow earlier ones are
+    const firstMs = logs.length > 0 ? new Date(logs[0].timestamp).getTime() : 0;
+    await Promise.all(logs.map(async (log, index) => {
+      await sleepUntil(startedAt + (new Date(log.timestamp).getTime() - firstMs) / speed, signal);
+      if (signal?.aborted) return;
+      outcomes[index] = await replayOne(baseUrl, log, signal);
+    }));
+  } else {
+    let next = 0;
+    await Promise.all(Array.from({ length: concurrency }, async () => {
+      while (!signal?.aborted && next < logs.length) {
+        const index = next++;
+        outcomes[index] = await replayOne(baseUrl, logs[index], signal);
+      }
+    }));
+  }
+
+  const original: Record<string, number> = {};
+  const replayed: Record<string, number> = {};
+  const changes = new Map<string, ReplayStatusChange>();
+  let sent = 0;
+  let unchanged = 0;
+
+  logs.forEach((log, index) => {
+    const to = outcomes[index];
+    if (to === undefined) return; // Not sent before the replay was stopped
+    const from = log.statusCode !== undefined ? String(log.statusCode) : 'unknown';
+    sent += 1;
+    original[from] = (original[from] ?? 0) + 1;
+    replayed[to] = (replayed[to] ?? 0) + 1;
+    if (from === to) {
+      unchanged += 1;
+      return;
+    }
+    const key = `${log.endpoint} ${from} ${to}`;
+    const change = changes.get(key) ?? { endpoint: log.endpoint, from, to, count: 0 };
+    change.count += 1;
+    changes.set(key, change);
+  });
+
+  return {
+    baseUrl,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date().toISOString(),
+    sent,
+    notReplayable,
+    stopped: sent < logs.length,
+    original,
+    replayed,
+    unchanged,
+    changes: Array.from(changes.values()).sort((a, b) => b.count - a.count),
+  };
+}
@@ -0,0 +1,209 @@
+// src/utils/traffic-sim/runner.ts
+import { SIM_SCENARIOS } from './scenarios';
+import { SimOptions, SimReport, SimRequest, SimSettings } from './types';
+
+export const MAX_SIM_REQUESTS = 5000;
+export const MAX_SIM_RATE_PER_SECOND = 200;
+export const MAX_SIM_CONCURRENCY = 50;
+const REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_SEED = 1;
+const DEFAULT_ACCOUNT = { email: 'user@example.com', password: 'K4sad@!' };
+
+// mulberry32: small, fast and good enough to pick from pools
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent stream per request or client, so the same seed gives the same traffic
+// whatever order the concurrent clients happen to run in
+const streamFor = (seed: number, stream: 'client' | 'request', index: number) =>
+  seededRandom(seed * 31 + index * 2654435761 + (stream === 'client' ? 1013904223 : 0));
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Why `settings` cannot be run, or null if they can.
+ */
+export function simSettingsProblem(settings: SimSettings): string | null {
+  if (!Number.isInteger(settings.requests) || settings.requests <= 0 || settings.requests > MAX_SIM_REQUESTS) {
+    return `requests must be a whole number from 1 to ${MAX_SIM_REQUESTS}`;
+  }
+  if (typeof settings.ratePerSecond !== 'number' || !(settings.ratePerSecond > 0) || settings.ratePerSecond > MAX_SIM_RATE_PER_SECOND) {
+    return `ratePerSecond must be above 0 and at most ${MAX_SIM_RATE_PER_SECOND}`;
+  }
+  if (!Number.isInteger(settings.concurrency) || settings.concurrency <= 0 || settings.concurrency > MAX_SIM_CONCURRENCY) {
+    return `concurrency must be a whole number from 1 to ${MAX_SIM_CONCURRENCY}`;
+  }
+  if (settings.ipPool.length === 0 || settings.userAgents.length === 0 || settings.headerSets.length === 0) {
+    return 'ipPool, userAgents and headerSets need at least one entry each';
+  }
+  return null;
+}
+
+/**
+ * The scenario's defaults with any settings given in `options` applied.
+ */
+export function resolveSimSettings(options: SimOptions): SimSettings {
+  const { defaults } = SIM_SCENARIOS[options.scenario];
+  return {
+    requests: options.requests ?? defaults.requests,
+    ratePerSecond: options.ratePerSecond ?? defaults.ratePerSecond,
+    concurrency: options.concurrency ?? defaults.concurrency,
+    ipPool: options.ipPool ?? defaults.ipPool,
+    userAgents: options.userAgents ?? defaults.userAgents,
+    headerSets: options.headerSets ?? defaults.headerSets,
+  };
+}
+
+interface Identity {
+  ip: string;
+  userAgent: string;
+  headers: Record<string, string>;
+}
+
+// A simulated browser or bot: who it claims to be, and the cookies it has been given
+interface VirtualClient {
+  identity: Identity | null; // Null when each request draws a new identity
+  cookies: Map<string, string>;
+}
+
+const drawIdentity = (settings: SimSettings, random: () => number): Identity => ({
+  ip: pick(settings.ipPool, random),
+  userAgent: pick(settings.userAgents, random),
+  headers: pick(settings.headerSets, random),
+});
+
+// Resolves at `time` (ms since the epoch), or straight away once `signal` aborts
+export const sleepUntil = (time: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const delay = time - Date.now();
+    if (delay <= 0 || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, delay);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+const send = async (
+  baseUrl: string, client: VirtualClient, identity: Identity, request: SimRequest, signal?: AbortSignal
+): Promise<Response> => {
+  const headers: Record<string, string> = {
+    ...identity.headers,
+    'user-agent': identity.userAgent,
+    'x-forwarded-for': identity.ip,
+  };
+  if (request.body !== undefined) headers['content-type'] = 'application/json';
+  if (client.cookies.size > 0) {
+    headers.cookie = Array.from(client.cookies, ([name, value]) => `${name}=${value}`).join('; ');
+  }
+
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  const response = await fetch(new URL(request.path, baseUrl), {
+    method: request.method,
+    headers,
+    body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    redirect: 'manual',
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+
+  for (const cookie of response.headers.getSetCookie()) {
+    const [pair] = cookie.split(';');
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (value) client.cookies.set(name, value);
+    else client.cookies.delete(name);
+  }
+  await response.arrayBuffer(); // Let the connection be reused
+  return response;
+};
+
+// Log a client in, solving the offline mock CAPTCHA if the adaptive challenge asks for one
+const logIn = async (
+  baseUrl: string, client: VirtualClient, identity: Identity, account: { email: string; password: string }, signal?: AbortSignal
+): Promise<boolean> => {
+  const request: SimRequest = { method: 'POST', path: '/api/auth/login', body: account };
+  const response = await send(baseUrl, client, identity, request, signal);
+  if (response.ok) return true;
+  if (response.status !== 403) return false;
+  const retry = await send(baseUrl, client, identity, { ...request, body: { ...account, captchaToken: 'mock:pass' } }, signal);
+  return retry.ok;
+};
+
+/**
+ * Send a scenario's requests to the app at `options.baseUrl`, paced at `ratePerSecond`
+ * across `concurrency` virtual clients. Resolves once every request has been answered
+ * (or failed), or early if `options.signal` aborts. `options.onProgress` gets the report so far
+ * after each response.
+ */
+export async function runSimulation(options: SimOptions): Promise<SimReport> {
+  const scenario = SIM_SCENARIOS[options.scenario];
+  const settings = resolveSimSettings(options);
+  const problem = simSettingsProblem(settings);
+  if (problem) throw new Error(problem);
+
+  const seed = options.seed ?? DEFAULT_SEED;
+  const { signal } = options;
+  const startedAt = Date.now();
+  const byStatus: Record<string, number> = {};
+  let sent = 0;
+  let latencyTotal = 0;
+  let nextSequence = 0;
+
+  const report = (finished: boolean): SimReport => ({
+    scenario: scenario.name,
+    settings,
+    seed,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: finished ? new Date().toISOString() : undefined,
+    sent,
+    byStatus: { ...byStatus },
+    averageLatencyMs: sent > 0 ? Math.round(latencyTotal / sent) : 0,
+    stopped: finished && sent < settings.requests,
+  });
+
+  const clients: VirtualClient[] = Array.from({ length: settings.concurrency }, (_, index) => ({
+    identity: scenario.stickyClients ? drawIdentity(settings, streamFor(seed, 'client', index)) : null,
+    cookies: new Map(),
+  }));
+
+  if (scenario.login) {
+    await Promise.all(clients.map(async (client, index) => {
+      const identity = client.identity ?? drawIdentity(settings, streamFor(seed, 'client', index));
+      const loggedIn = await logIn(options.baseUrl, client, identity, options.account ?? DEFAULT_ACCOUNT, signal).catch(() => false);
+      if (!loggedIn) console.warn(`Simulated client ${index} could not log in; its requests will be anonymous`);
+    }));
+  }
+
+  const scheduleStart = Date.now();
+  await Promise.all(clients.map(async (client, index) => {
+    while (!signal?.aborted) {
+      const sequence = nextSequence++;
+      if (sequence >= settings.requests) return;
+      await sleepUntil(scheduleStart + (sequence * 1000) / settings.ratePerSecond, signal);
+      if (signal?.aborted) return;
+
+      const random = streamFor(seed, 'request', sequence);
+      const request = scenario.nextRequest({ random, sequence, client: index });
+      const identity = client.identity ?? drawIdentity(settings, random);
+      const requestStart = Date.now();
+      let outcome: string;
+      try {
+        outcome = String((await send(options.baseUrl, client, identity, request, signal)).status);
+      } catch {
+        outcome = 'error';
+      }
+      latencyTotal += Date.now() - requestStart;
+      sent += 1;
+      byStatus[outcome] = (byStatus[outcome] ?? 0) + 1;
+      options.onProgress?.(report(false));
+    }
+  }));
+
+  return report(true);
+}
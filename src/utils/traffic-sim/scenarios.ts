@@ -0,0 +1,132 @@
+// src/utils/traffic-sim/scenarios.ts
+import { readCatalog } from '../product-store';
+import { SimContext, SimRequest, SimScenario, SimScenarioName } from './types';
+
+// Documentation ranges (RFC 5737), so simulated clients never collide with real ones
+const BOT_IPS = Array.from({ length: 50 }, (_, i) => `203.0.113.${i + 10}`);
+const HUMAN_IPS = Array.from({ length: 20 }, (_, i) => `198.51.100.${i + 10}`);
+
+const BOT_USER_AGENTS = [
+  'python-requests/2.31.0',
+  'curl/8.4.0',
+  'Go-http-client/1.1',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.0.0 Safari/537.36',
+];
+const HUMAN_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+];
+
+const BAD_BOT_HEADERS = [{ 'x-kasada-classification': 'bad-bot' }];
+const HUMAN_HEADERS = [{ 'x-kasada-classification': 'human' }];
+
+// A valid address for the simulated checkouts
+const SHIPPING_ADDRESS = {
+  name: 'Sim Shopper',
+  email: 'sim@example.com',
+  address: '1 Test Street',
+  city: 'San Francisco',
+  state: 'CA',
+  zipCode: '94105',
+  country: 'United States',
+};
+
+// The real account credential stuffing hits now and then. It is kept apart from the account
+// other scenarios log in with (runner.ts), so locking it out does not break their runs.
+const STUFFING_TARGET_EMAIL = 'stuffing-target@example.com';
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const productIds = (): number[] => readCatalog().map(product => product.id);
+
+// Logins from a leaked credential list: mostly unknown accounts, with the odd real one (STUFFING_TARGET_EMAIL)
+const credentialStuffing: SimScenario = {
+  name: 'credential-stuffing',
+  description: 'Leaked email/password pairs against /api/auth/login from rotating bot IPs',
+  defaults: {
+    requests: 200, ratePerSecond: 20, concurrency: 5,
+    ipPool: BOT_IPS, userAgents: BOT_USER_AGENTS, headerSets: BAD_BOT_HEADERS,
+  },
+  stickyClients: false,
+  login: false,
+  nextRequest: ({ random, sequence }: SimContext): SimRequest => ({
+    method: 'POST',
+    path: '/api/auth/login',
+    body: {
+      email: random() < 0.05 ? STUFFING_TARGET_EMAIL : `user${sequence}@example.net`,
+      password: Math.floor(random() * 1e8).toString(36),
+    },
+  }),
+};
+
+// Logged-in clients hammering add-to-cart and checkout for the limited drop
+const checkoutFlood: SimScenario = {
+  name: 'checkout-flood',
+  description: 'Logged-in clients repeatedly adding the limited drop to the cart and checking out',
+  defaults: {
+    requests: 100, ratePerSecond: 10, concurrency: 4,
+    ipPool: BOT_IPS, userAgents: BOT_USER_AGENTS, headerSets: BAD_BOT_HEADERS,
+  },
+  stickyClients: true,
+  login: true,
+  nextRequest: ({ sequence }: SimContext): SimRequest => {
+    const catalog = readCatalog();
+    const target = catalog.find(product => product.limitedDrop) ?? catalog[0];
+    return sequence % 2 === 0
+      ? { method: 'POST', path: '/api/cart', body: { productId: target.id } }
+      : {
+          method: 'POST',
+          path: '/api/checkout',
+          body: { items: [{ id: target.id, quantity: 1 }], shippingAddress: SHIPPING_ADDRESS, paymentMethod: 'credit-card' },
+        };
+  },
+};
+
+// Walks product ids in order, past the end of the catalog
+const catalogScraping: SimScenario = {
+  name: 'catalog-scraping',
+  description: 'Sequential /api/products/[id] requests, running past the end of the catalog',
+  defaults: {
+    requests: 150, ratePerSecond: 25, concurrency: 5,
+    ipPool: BOT_IPS, userAgents: BOT_USER_AGENTS, headerSets: BAD_BOT_HEADERS,
+  },
+  stickyClients: false,
+  login: false,
+  nextRequest: ({ sequence }: SimContext): SimRequest => {
+    if (sequence % 10 === 0) return { method: 'GET', path: '/api/products' };
+    const maxId = Math.max(0, ...productIds());
+    return { method: 'GET', path: `/api/products/${(sequence % (maxId + 5)) + 1}` };
+  },
+};
+
+// Shoppers browsing and adding to the cart at a human pace
+const humanBaseline: SimScenario = {
+  name: 'human-baseline',
+  description: 'Shoppers browsing products and adding to the cart at a human pace',
+  defaults: {
+    requests: 60, ratePerSecond: 2, concurrency: 3,
+    ipPool: HUMAN_IPS, userAgents: HUMAN_USER_AGENTS, headerSets: HUMAN_HEADERS,
+  },
+  stickyClients: true,
+  login: false,
+  nextRequest: ({ random }: SimContext): SimRequest => {
+    const roll = random();
+    const productId = pick(productIds(), random);
+    if (roll < 0.3) return { method: 'GET', path: '/api/products' };
+    if (roll < 0.7) return { method: 'GET', path: `/api/products/${productId}` };
+    if (roll < 0.85) return { method: 'POST', path: '/api/cart', body: { productId } };
+    return { method: 'GET', path: '/api/cart' };
+  },
+};
+
+export const SIM_SCENARIOS: Record<SimScenarioName, SimScenario> = {
+  'credential-stuffing': credentialStuffing,
+  'checkout-flood': checkoutFlood,
+  'catalog-scraping': catalogScraping,
+  'human-baseline': humanBaseline,
+};
+
+export const isSimScenarioName = (value: unknown): value is SimScenarioName =>
+  typeof value === 'string' && Object.hasOwn(SIM_SCENARIOS, value);
@@ -0,0 +1,56 @@
+// src/utils/traffic-sim/types.ts
+
+export type SimScenarioName = 'credential-stuffing' | 'checkout-flood' | 'catalog-scraping' | 'human-baseline';
+
+// One request a virtual client sends
+export interface SimRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: unknown;
+}
+
+// What a scenario can draw on when building its next request
+export interface SimContext {
+  random: () => number; // Seeded, so runs are reproducible
+  sequence: number;     // 0-based index of the request within the run
+  client: number;       // Index of the virtual client sending it
+}
+
+export interface SimScenario {
+  name: SimScenarioName;
+  description: string;
+  defaults: SimSettings;
+  stickyClients: boolean; // Each virtual client keeps one IP, user agent and header set (like a browser)
+  login: boolean;         // Clients log in with the run's account before sending requests
+  nextRequest(context: SimContext): SimRequest;
+}
+
+export interface SimSettings {
+  requests: number;      // Total requests in the run
+  ratePerSecond: number; // Across all clients
+  concurrency: number;   // Virtual clients sending in parallel
+  ipPool: string[];      // Sent as X-Forwarded-For
+  userAgents: string[];
+  headerSets: Record<string, string>[]; // E.g. { 'x-kasada-classification': 'bad-bot' }
+}
+
+export interface SimOptions extends Partial<SimSettings> {
+  scenario: SimScenarioName;
+  baseUrl: string;      // Origin of the app, e.g. http://localhost:3000
+  seed?: number;        // Same seed and settings, same requests
+  account?: { email: string; password: string }; // For scenarios that log in
+  signal?: AbortSignal; // Stops the run early
+  onProgress?: (report: SimReport) => void;
+}
+
+export interface SimReport {
+  scenario: SimScenarioName;
+  settings: SimSettings;
+  seed: number;
+  startedAt: string;
+  finishedAt?: string;  // Missing while the run is in progress
+  sent: number;
+  byStatus: Record<string, number>; // Status code (or 'error' when no response) -> count
+  averageLatencyMs: number;
+  stopped: boolean;     // Aborted before all requests were sent
+}
@@ -0,0 +1,51 @@
+// src/utils/traffic-store/cursor.ts
+import { TrafficLog } from '@/types';
+
+/**
+ * Position of the last log on a page. Logs are ordered newest first by (timestamp desc, id desc),
+ * or oldest first by (timestamp asc, id asc), so the next page starts strictly after this pair.
+ */
+export interface LogCursor {
+  t: number;  // Timestamp in milliseconds
+  id: string; // Log id (breaks ties within the same millisecond)
+}
+
+export type LogOrder = 'newest' | 'oldest';
+
+export function encodeLogCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor string. Returns null if it is malformed.
+ */
+export function decodeLogCursor(value: string): LogCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof parsed?.t === 'number' && typeof parsed?.id === 'string') {
+      return { t: parsed.t, id: parsed.id };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+// Plain code-unit comparison, matching Redis' lexicographic ordering of members
+const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Sort comparator for newest-first ordering.
+ */
+export function compareLogsNewestFirst(a: TrafficLog, b: TrafficLog): number {
+  return (new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    || compareIds(b.id ?? '', a.id ?? '');
+}
+
+/**
+ * True if a log at (timestampMs, id) comes after the cursor in `order`.
+ */
+export function isAfterCursor(timestampMs: number, id: string, cursor: LogCursor, order: LogOrder = 'newest'): boolean {
+  const position = (timestampMs - cursor.t) || compareIds(id, cursor.id);
+  return order === 'oldest' ? position > 0 : position < 0;
+}
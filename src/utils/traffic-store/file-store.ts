@@ -0,0 +1,172 @@
+// src/utils/traffic-store/file-store.ts
+import fs from 'fs';
+import path from 'path';
+import { TrafficAlert, TrafficLog } from '@/types';
+import { TrafficStore, TrafficLogQuery, TrafficLogPage, MAX_LOGS, QuantityChange, QuantityAdjustment } from './types';
+import {
+  applyLogQuery,
+  counterNamesOf,
+  incrementCounters,
+  readCounts,
+  recordHit,
+  upsertAlert,
+  readRecord,
+  writeRecord,
+  applyQuantityChanges,
+  CounterMap,
+  RateLimitHits,
+  RecordMap,
+  QuantityMap,
+} from './memory-store';
+
+// Paths to the development data files
+const LOG_FILE_PATH = path.join(process.cwd(), 'src/data/traffic.json');
+const COUNTER_FILE_PATH = path.join(process.cwd(), 'src/data/traffic-counters.json');
+const ALERT_FILE_PATH = path.join(process.cwd(), 'src/data/traffic-alerts.json');
+const RATE_LIMIT_FILE_PATH = path.join(process.cwd(), 'src/data/traffic-rate-limits.json');
+const RECORD_FILE_PATH = path.join(process.cwd(), 'src/data/traffic-records.json');
+const QUANTITY_FILE_PATH = path.join(process.cwd(), 'src/data/traffic-quantities.json');
+
+function readJson<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    // If file is corrupted, start fresh
+    console.error(`Error parsing ${path.basename(filePath)}:`, error);
+    return fallback;
+  }
+}
+
+function writeJson(filePath: string, data: unknown): void {
+  // Create directory if it doesn't exist
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
+}
+
+function readCounters(): CounterMap {
+  const counters = readJson<CounterMap>(COUNTER_FILE_PATH, {});
+  // Files written before rollups were flat `<name>:<bucket>` maps; start those over
+  return Object.values(counters).every(value => typeof value === 'object') ? counters : {};
+}
+
+/**
+ * JSON-file backend for local development.
+ * Logs go to `src/data/traffic.json` (oldest first), counters to `src/data/traffic-counters.json`,
+ * alerts to `src/data/traffic-alerts.json`, rate-limit hits to `src/data/traffic-rate-limits.json`,
+ * generic records to `src/data/traffic-records.json` and quantities to `src/data/traffic-quantities.json`.
+ * Quantity batches and record updates are read and written synchronously, so they are atomic within the dev server process.
+ */
+export class FileTrafficStore implements TrafficStore {
+  async appendLog(entry: TrafficLog, counterNames: string[]): Promise<void> {
+    let logs = readJson<TrafficLog[]>(LOG_FILE_PATH, []);
+    logs.push(entry);
+    // Keep only the last MAX_LOGS entries
+    if (logs.length > MAX_LOGS) {
+      logs = logs.slice(-MAX_LOGS);
+    }
+    writeJson(LOG_FILE_PATH, logs);
+
+    if (counterNames.length > 0) {
+      const counters = readCounters();
+      const timestampSeconds = Math.floor(new Date(entry.timestamp).getTime() / 1000);
+      incrementCounters(counters, counterNames, timestampSeconds);
+      writeJson(COUNTER_FILE_PATH, counters);
+    }
+  }
+
+  async updateLog(id: string, patch: Partial<TrafficLog>): Promise<void> {
+    const logs = readJson<TrafficLog[]>(LOG_FILE_PATH, []);
+    const entry = logs.find(log => log.id === id);
+    if (!entry) return;
+    Object.assign(entry, patch);
+    writeJson(LOG_FILE_PATH, logs);
+  }
+
+  async queryLogs(query: TrafficLogQuery): Promise<TrafficLogPage> {
+    return applyLogQuery(readJson<TrafficLog[]>(LOG_FILE_PATH, []), query);
+  }
+
+  async getCounts(names: string[], bucketTimestamps: number[], resolutionSeconds: number): Promise<Record<string, number[]>> {
+    return readCounts(readCounters(), names, bucketTimestamps, resolutionSeconds);
+  }
+
+  async getCounterNames(): Promise<string[]> {
+    return counterNamesOf(readCounters());
+  }
+
+  async saveAlert(alert: TrafficAlert): Promise<void> {
+    writeJson(ALERT_FILE_PATH, upsertAlert(readJson<TrafficAlert[]>(ALERT_FILE_PATH, []), alert));
+  }
+
+  async getAlerts(limit: number): Promise<TrafficAlert[]> {
+    return readJson<TrafficAlert[]>(ALERT_FILE_PATH, []).slice(0, limit);
+  }
+
+  async recordRateLimitHit(key: string, timestampMs: number, windowSeconds: number): Promise<number[]> {
+    const hits = readJson<RateLimitHits>(RATE_LIMIT_FILE_PATH, {});
+    const inWindow = recordHit(hits, key, timestampMs, windowSeconds);
+    writeJson(RATE_LIMIT_FILE_PATH, hits);
+    return inWindow;
+  }
+
+  async getRecord<T>(namespace: string, id: string): Promise<T | null> {
+    return readRecord<T>(readJson<RecordMap>(RECORD_FILE_PATH, {}), namespace, id);
+  }
+
+  async putRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<void> {
+    const records = readJson<RecordMap>(RECORD_FILE_PATH, {});
+    writeRecord(records, namespace, id, value, ttlSeconds);
+    writeJson(RECORD_FILE_PATH, records);
+  }
+
+  async createRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<boolean> {
+    const records = readJson<RecordMap>(RECORD_FILE_PATH, {});
+    if (readRecord(records, namespace, id) !== null) return false;
+    writeRecord(records, namespace, id, value, ttlSeconds);
+    writeJson(RECORD_FILE_PATH, records);
+    return true;
+  }
+
+  async deleteRecord(namespace: string, id: string): Promise<boolean> {
+    const records = readJson<RecordMap>(RECORD_FILE_PATH, {});
+    if (!records[namespace]?.[id]) return false;
+    const existed = readRecord(records, namespace, id) !== null;
+    delete records[namespace][id];
+    writeJson(RECORD_FILE_PATH, records);
+    return existed;
+  }
+
+  async updateRecord<T>(namespace: string, id: string, update: (current: T | null) => T | null, ttlSeconds?: number): Promise<T | null> {
+    const records = readJson<RecordMap>(RECORD_FILE_PATH, {});
+    const next = update(readRecord<T>(records, namespace, id));
+    if (next === null) {
+      delete records[namespace]?.[id];
+    } else {
+      writeRecord(records, namespace, id, next, ttlSeconds);
+    }
+    writeJson(RECORD_FILE_PATH, records);
+    return next;
+  }
+
+  async getQuantities(keys: string[]): Promise<(number | null)[]> {
+    const quantities = readJson<QuantityMap>(QUANTITY_FILE_PATH, {});
+    return keys.map(key => quantities[key] ?? null);
+  }
+
+  async adjustQuantities(changes: QuantityChange[]): Promise<QuantityAdjustment> {
+    const quantities = readJson<QuantityMap>(QUANTITY_FILE_PATH, {});
+    const result = applyQuantityChanges(quantities, changes);
+    if (result.applied) writeJson(QUANTITY_FILE_PATH, quantities);
+    return result;
+  }
+
+  async setQuantity(key: string, value: number): Promise<void> {
+    const quantities = readJson<QuantityMap>(QUANTITY_FILE_PATH, {});
+    quantities[key] = value;
+    writeJson(QUANTITY_FILE_PATH, quantities);
+  }
+}
@@ -0,0 +1,52 @@
+// src/utils/traffic-store/filters.ts
+// Kept free of server-only imports so the dashboard can reuse it to match streamed logs.
+import { TrafficLog } from '@/types';
+
+export interface TrafficLogFilters {
+  endpoint?: string;
+  method?: string;
+  isBot?: boolean;
+  ip?: string;
+  status?: string;    // Exact code ("401") or class ("4xx")
+  userAgent?: string; // Case-insensitive substring
+  since?: number;     // Timestamp in milliseconds (exclusive)
+  until?: number;     // Timestamp in milliseconds (inclusive)
+}
+
+const STATUS_PATTERN = /^([1-5])(xx|\d\d)$/i;
+
+export function isValidStatusFilter(status: string): boolean {
+  return STATUS_PATTERN.test(status);
+}
+
+export function matchesStatus(statusCode: number | undefined, status: string): boolean {
+  const match = STATUS_PATTERN.exec(status);
+  if (!match || statusCode === undefined) return false;
+  if (match[2].toLowerCase() === 'xx') {
+    return Math.floor(statusCode / 100) === Number(match[1]);
+  }
+  return statusCode === Number(status);
+}
+
+/**
+ * True if the log satisfies every filter that is set.
+ */
+export function matchesLogFilters(log: TrafficLog, filters: TrafficLogFilters): boolean {
+  const timestampMs = new Date(log.timestamp).getTime();
+  if (filters.since !== undefined && timestampMs <= filters.since) return false;
+  if (filters.until !== undefined && timestampMs > filters.until) return false;
+  if (filters.endpoint && log.endpoint !== filters.endpoint) return false;
+  if (filters.method && log.method !== filters.method) return false;
+  if (filters.isBot !== undefined && log.isBot !== filters.isBot) return false;
+  if (filters.ip && log.ip !== filters.ip) return false;
+  if (filters.status && !matchesStatus(log.statusCode, filters.status)) return false;
+  if (filters.userAgent && !log.userAgent.toLowerCase().includes(filters.userAgent.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * True if some filter can only be checked against the full log (no index covers it).
+ */
+export function needsPostFilter(filters: TrafficLogFilters): boolean {
+  return Boolean(filters.status || filters.userAgent);
+}
@@ -0,0 +1,56 @@
+// src/utils/traffic-store/index.ts
+import { TrafficStore, TrafficStoreKind } from './types';
+import { RedisTrafficStore } from './redis-store';
+import { FileTrafficStore } from './file-store';
+import { MemoryTrafficStore } from './memory-store';
+
+export * from './types';
+export { encodeLogCursor, decodeLogCursor } from './cursor';
+export * from './filters';
+export { RedisTrafficStore, FileTrafficStore, MemoryTrafficStore };
+
+let store: TrafficStore | null = null;
+
+/**
+ * Which backend to use. `TRAFFIC_STORE` (redis | file | memory) wins;
+ * otherwise Redis in production and the JSON file in development.
+ */
+export function resolveTrafficStoreKind(): TrafficStoreKind {
+  const configured = process.env.TRAFFIC_STORE?.toLowerCase();
+  if (configured === 'redis' || configured === 'file' || configured === 'memory') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown TRAFFIC_STORE "${configured}", falling back to default.`);
+  }
+  return process.env.NODE_ENV === 'production' ? 'redis' : 'file';
+}
+
+export function createTrafficStore(kind: TrafficStoreKind): TrafficStore {
+  switch (kind) {
+    case 'redis':
+      return new RedisTrafficStore();
+    case 'memory':
+      return new MemoryTrafficStore();
+    case 'file':
+    default:
+      return new FileTrafficStore();
+  }
+}
+
+/**
+ * Get the configured traffic store (created once per process).
+ */
+export function getTrafficStore(): TrafficStore {
+  if (!store) {
+    store = createTrafficStore(resolveTrafficStoreKind());
+  }
+  return store;
+}
+
+/**
+ * Override the active store (e.g. with a MemoryTrafficStore in scripts or tests).
+ */
+export function setTrafficStore(next: TrafficStore | null): void {
+  store = next;
+}
@@ -0,0 +1,101 @@
+// src/utils/traffic-store/memory-store.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrafficLog } from '@/types';
+import { applyLogQuery, MemoryTrafficStore } from './memory-store';
+import { decodeLogCursor, encodeLogCursor, LogOrder } from './cursor';
+import { TrafficLogQuery } from './types';
+
+const BASE_MS = Date.now() - 60 * 1000; // Recent enough to stay within the log TTL
+
+const makeLog = (id: string, offsetMs: number, overrides: Partial<TrafficLog> = {}): TrafficLog => ({
+  id,
+  timestamp: new Date(BASE_MS + offsetMs).toISOString(),
+  endpoint: '/api/auth/login',
+  method: 'POST',
+  ip: '203.0.113.7',
+  userAgent: 'test',
+  isBot: false,
+  statusCode: 200,
+  headers: {},
+  ...overrides,
+});
+
+// Three logs share a millisecond, so paging has to break ties on id
+const LOGS = [
+  makeLog('a', 0),
+  makeLog('b', 1000),
+  makeLog('c', 1000),
+  makeLog('d', 1000),
+  makeLog('e', 2000, { endpoint: '/api/checkout' }),
+  makeLog('f', 3000),
+];
+
+// Follow nextCursor to the end, collecting log ids page by page
+const collectPages = (query: TrafficLogQuery): string[][] => {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = applyLogQuery(LOGS, { ...query, cursor });
+    pages.push(page.logs.map(log => log.id ?? ''));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+};
+
+test('log cursors round-trip and reject malformed values', () => {
+  const cursor = { t: BASE_MS, id: `${BASE_MS}-abc` };
+  assert.deepEqual(decodeLogCursor(encodeLogCursor(cursor)), cursor);
+  assert.equal(decodeLogCursor('not a cursor'), null);
+  assert.equal(decodeLogCursor(Buffer.from(JSON.stringify({ t: 'x', id: 1 })).toString('base64url')), null);
+});
+
+test('applyLogQuery pages newest first without skipping or repeating ties', () => {
+  assert.deepEqual(collectPages({ limit: 2 }), [['f', 'e'], ['d', 'c'], ['b', 'a']]);
+});
+
+test('applyLogQuery pages oldest first when asked', () => {
+  const order: LogOrder = 'oldest';
+  assert.deepEqual(collectPages({ limit: 2, order }), [['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  assert.deepEqual(collectPages({ limit: 4, order, since: BASE_MS }), [['b', 'c', 'd', 'e'], ['f']]);
+});
+
+test('applyLogQuery filters before cutting the page', () => {
+  const page = applyLogQuery(LOGS, { endpoint: '/api/checkout', limit: 1 });
+  assert.deepEqual(page.logs.map(log => log.id), ['e']);
+  assert.equal(page.nextCursor, null);
+});
+
+test('MemoryTrafficStore returns appended logs through the same paging', async () => {
+  const store = new MemoryTrafficStore();
+  for (const log of LOGS) {
+    await store.appendLog(log, []);
+  }
+
+  const first = await store.queryLogs({ limit: 3 });
+  assert.deepEqual(first.logs.map(log => log.id), ['f', 'e', 'd']);
+  const second = await store.queryLogs({ limit: 3, cursor: first.nextCursor ?? undefined });
+  assert.deepEqual(second.logs.map(log => log.id), ['c', 'b', 'a']);
+  assert.equal(second.nextCursor, null);
+});
+
+test('MemoryTrafficStore creates records only once and reports which delete removed one', async () => {
+  const store = new MemoryTrafficStore();
+  assert.equal(await store.createRecord('test', 'claim', { owner: 'first' }), true);
+  assert.equal(await store.createRecord('test', 'claim', { owner: 'second' }), false);
+  assert.deepEqual(await store.getRecord('test', 'claim'), { owner: 'first' });
+
+  const [first, second] = await Promise.all([store.deleteRecord('test', 'claim'), store.deleteRecord('test', 'claim')]);
+  assert.deepEqual([first, second], [true, false]);
+  assert.equal(await store.getRecord('test', 'claim'), null);
+});
+
+test('MemoryTrafficStore updates records from their current value and deletes on null', async () => {
+  const store = new MemoryTrafficStore();
+  const increment = (current: number | null) => (current ?? 0) + 1;
+  assert.equal(await store.updateRecord('test', 'count', increment), 1);
+  assert.equal(await store.updateRecord('test', 'count', increment), 2);
+
+  assert.equal(await store.updateRecord('test', 'count', () => null), null);
+  assert.equal(await store.getRecord('test', 'count'), null);
+});
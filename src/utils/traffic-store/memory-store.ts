@@ -0,0 +1,280 @@
+// src/utils/traffic-store/memory-store.ts
+import { TrafficAlert, TrafficLog } from '@/types';
+import {
+  TrafficStore,
+  TrafficLogQuery,
+  TrafficLogPage,
+  MAX_LOGS,
+  MAX_ALERTS,
+  ALERT_TTL_SECONDS,
+  COUNTER_RESOLUTIONS,
+  bucketStart,
+  QuantityChange,
+  QuantityAdjustment,
+} from './types';
+import { matchesLogFilters } from './filters';
+import { compareLogsNewestFirst, decodeLogCursor, encodeLogCursor, isAfterCursor } from './cursor';
+
+/**
+ * Apply a query to an in-memory list of logs (any order), returning one page in the query's order.
+ * Shared by the memory and file backends.
+ */
+export function applyLogQuery(logs: TrafficLog[], query: TrafficLogQuery): TrafficLogPage {
+  const cursor = query.cursor ? decodeLogCursor(query.cursor) : null;
+  const limit = Math.min(query.limit ?? MAX_LOGS, MAX_LOGS);
+
+  const matches = logs.filter(log => {
+    if (cursor && !isAfterCursor(new Date(log.timestamp).getTime(), log.id ?? '', cursor, query.order)) return false;
+    return matchesLogFilters(log, query);
+  });
+
+  // Sort logs newest first (or oldest first), then cut the page
+  matches.sort(query.order === 'oldest' ? (a, b) => compareLogsNewestFirst(b, a) : compareLogsNewestFirst);
+  const page = matches.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    logs: page,
+    nextCursor: matches.length > limit && last
+      ? encodeLogCursor({ t: new Date(last.timestamp).getTime(), id: last.id ?? '' })
+      : null,
+  };
+}
+
+// Counters per resolution: { '<seconds>': { '<name>:<bucket>': count } }
+export type CounterMap = Record<string, Record<string, number>>;
+
+/**
+ * Increment `names` in the bucket containing `timestampSeconds` at every resolution,
+ * dropping buckets that have outlived their resolution's expiry.
+ */
+export function incrementCounters(counters: CounterMap, names: string[], timestampSeconds: number): void {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  for (const resolution of COUNTER_RESOLUTIONS) {
+    const byBucket = (counters[resolution.seconds] ??= {});
+    const bucket = bucketStart(timestampSeconds, resolution.seconds);
+    for (const name of names) {
+      const key = `${name}:${bucket}`;
+      byBucket[key] = (byBucket[key] ?? 0) + 1;
+    }
+
+    const cutoff = nowSeconds - resolution.expirySeconds;
+    for (const key of Object.keys(byBucket)) {
+      if (Number(key.slice(key.lastIndexOf(':') + 1)) < cutoff) delete byBucket[key];
+    }
+  }
+}
+
+/**
+ * Read counts for `names` x `bucketTimestamps` at one resolution; missing buckets are 0.
+ */
+export function readCounts(
+  counters: CounterMap,
+  names: string[],
+  bucketTimestamps: number[],
+  resolutionSeconds: number
+): Record<string, number[]> {
+  const byBucket = counters[resolutionSeconds] ?? {};
+  const result: Record<string, number[]> = {};
+  for (const name of names) {
+    result[name] = bucketTimestamps.map(ts => byBucket[`${name}:${ts}`] ?? 0);
+  }
+  return result;
+}
+
+/**
+ * Distinct counter names present at any resolution.
+ */
+export function counterNamesOf(counters: CounterMap): string[] {
+  const names = new Set<string>();
+  for (const byBucket of Object.values(counters)) {
+    for (const key of Object.keys(byBucket)) {
+      names.add(key.slice(0, key.lastIndexOf(':')));
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Replace-or-insert `alert` by id, dropping expired alerts and keeping the newest MAX_ALERTS
+ * (most recently updated first).
+ */
+export function upsertAlert(alerts: TrafficAlert[], alert: TrafficAlert): TrafficAlert[] {
+  const cutoff = Date.now() - ALERT_TTL_SECONDS * 1000;
+  return [alert, ...alerts.filter(a => a.id !== alert.id)]
+    .filter(a => new Date(a.updatedAt).getTime() >= cutoff)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_ALERTS);
+}
+
+// Rate-limit hits per key: { '<key>': [timestampMs, ...] } (oldest first)
+export type RateLimitHits = Record<string, number[]>;
+
+/**
+ * Add a hit to `key`, dropping hits older than `windowSeconds`, and return the hits left.
+ * Keys with no recent hits are removed.
+ */
+export function recordHit(hits: RateLimitHits, key: string, timestampMs: number, windowSeconds: number): number[] {
+  const cutoff = timestampMs - windowSeconds * 1000;
+  hits[key] = [...(hits[key] ?? []).filter(ts => ts > cutoff), timestampMs].sort((a, b) => a - b);
+  for (const other of Object.keys(hits)) {
+    // Other keys may use longer windows; only drop those idle for over a day
+    if (hits[other].every(ts => ts < timestampMs - 24 * 60 * 60 * 1000)) delete hits[other];
+  }
+  return hits[key];
+}
+
+// Generic records: { '<namespace>': { '<id>': { value, expiresAt } } }
+export type RecordMap = Record<string, Record<string, { value: unknown; expiresAt: number | null }>>;
+
+/**
+ * Look up a record, treating expired ones as missing.
+ */
+export function readRecord<T>(records: RecordMap, namespace: string, id: string): T | null {
+  const record = records[namespace]?.[id];
+  if (!record || (record.expiresAt !== null && record.expiresAt <= Date.now())) return null;
+  return record.value as T;
+}
+
+/**
+ * Write a record and drop any expired ones in the same namespace.
+ */
+export function writeRecord<T>(records: RecordMap, namespace: string, id: string, value: T, ttlSeconds?: number): void {
+  const now = Date.now();
+  const byId = (records[namespace] ??= {});
+  byId[id] = { value, expiresAt: ttlSeconds ? now + ttlSeconds * 1000 : null };
+  for (const [otherId, record] of Object.entries(byId)) {
+    if (record.expiresAt !== null && record.expiresAt <= now) delete byId[otherId];
+  }
+}
+
+// Quantities: { '<key>': value }
+export type QuantityMap = Record<string, number>;
+
+/**
+ * Apply every change or none: stops at the first change that would leave its bounds.
+ */
+export function applyQuantityChanges(quantities: QuantityMap, changes: QuantityChange[]): QuantityAdjustment {
+  const values: number[] = [];
+  for (const [index, change] of changes.entries()) {
+    const current = quantities[change.key] ?? change.initial;
+    const next = current + change.delta;
+    if ((change.min !== undefined && next < change.min) || (change.max !== undefined && next > change.max)) {
+      return { applied: false, failedIndex: index, current };
+    }
+    values.push(next);
+  }
+  changes.forEach((change, index) => { quantities[change.key] = values[index]; });
+  return { applied: true, values };
+}
+
+interface MemoryState {
+  logs: TrafficLog[];
+  counters: CounterMap;
+  alerts: TrafficAlert[];
+  rateLimits: RateLimitHits;
+  records: RecordMap;
+  quantities: QuantityMap;
+}
+
+// Keep state on globalThis so it survives module reloads in `next dev`
+const globalForStore = globalThis as unknown as { __memoryTrafficStore?: MemoryState };
+
+export class MemoryTrafficStore implements TrafficStore {
+  private state: MemoryState;
+
+  constructor(state?: MemoryState) {
+    if (state) {
+      this.state = state;
+    } else {
+      globalForStore.__memoryTrafficStore ??= { logs: [], counters: {}, alerts: [], rateLimits: {}, records: {}, quantities: {} };
+      // State created by an older version of this module during `next dev`
+      globalForStore.__memoryTrafficStore.alerts ??= [];
+      globalForStore.__memoryTrafficStore.rateLimits ??= {};
+      globalForStore.__memoryTrafficStore.records ??= {};
+      globalForStore.__memoryTrafficStore.quantities ??= {};
+      this.state = globalForStore.__memoryTrafficStore;
+    }
+  }
+
+  async appendLog(entry: TrafficLog, counterNames: string[]): Promise<void> {
+    this.state.logs.push(entry);
+    if (this.state.logs.length > MAX_LOGS) {
+      this.state.logs = this.state.logs.slice(-MAX_LOGS);
+    }
+
+    const timestampSeconds = Math.floor(new Date(entry.timestamp).getTime() / 1000);
+    incrementCounters(this.state.counters, counterNames, timestampSeconds);
+  }
+
+  async updateLog(id: string, patch: Partial<TrafficLog>): Promise<void> {
+    const entry = this.state.logs.find(log => log.id === id);
+    if (entry) Object.assign(entry, patch);
+  }
+
+  async queryLogs(query: TrafficLogQuery): Promise<TrafficLogPage> {
+    return applyLogQuery(this.state.logs, query);
+  }
+
+  async getCounts(names: string[], bucketTimestamps: number[], resolutionSeconds: number): Promise<Record<string, number[]>> {
+    return readCounts(this.state.counters, names, bucketTimestamps, resolutionSeconds);
+  }
+
+  async getCounterNames(): Promise<string[]> {
+    return counterNamesOf(this.state.counters);
+  }
+
+  async saveAlert(alert: TrafficAlert): Promise<void> {
+    this.state.alerts = upsertAlert(this.state.alerts, alert);
+  }
+
+  async getAlerts(limit: number): Promise<TrafficAlert[]> {
+    return this.state.alerts.slice(0, limit);
+  }
+
+  async recordRateLimitHit(key: string, timestampMs: number, windowSeconds: number): Promise<number[]> {
+    return recordHit(this.state.rateLimits, key, timestampMs, windowSeconds);
+  }
+
+  async getRecord<T>(namespace: string, id: string): Promise<T | null> {
+    return readRecord<T>(this.state.records, namespace, id);
+  }
+
+  async putRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<void> {
+    writeRecord(this.state.records, namespace, id, value, ttlSeconds);
+  }
+
+  async createRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<boolean> {
+    if (readRecord(this.state.records, namespace, id) !== null) return false;
+    writeRecord(this.state.records, namespace, id, value, ttlSeconds);
+    return true;
+  }
+
+  async deleteRecord(namespace: string, id: string): Promise<boolean> {
+    const existed = readRecord(this.state.records, namespace, id) !== null;
+    delete this.state.records[namespace]?.[id];
+    return existed;
+  }
+
+  async updateRecord<T>(namespace: string, id: string, update: (current: T | null) => T | null, ttlSeconds?: number): Promise<T | null> {
+    const next = update(readRecord<T>(this.state.records, namespace, id));
+    if (next === null) {
+      delete this.state.records[namespace]?.[id];
+    } else {
+      writeRecord(this.state.records, namespace, id, next, ttlSeconds);
+    }
+    return next;
+  }
+
+  async getQuantities(keys: string[]): Promise<(number | null)[]> {
+    return keys.map(key => this.state.quantities[key] ?? null);
+  }
+
+  async adjustQuantities(changes: QuantityChange[]): Promise<QuantityAdjustment> {
+    return applyQuantityChanges(this.state.quantities, changes);
+  }
+
+  async setQuantity(key: string, value: number): Promise<void> {
+    this.state.quantities[key] = value;
+  }
+}
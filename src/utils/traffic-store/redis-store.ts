@@ -0,0 +1,352 @@
+// src/utils/traffic-store/redis-store.ts
+import { redis } from '../redis-client';
+import { TrafficAlert, TrafficLog } from '@/types';
+import {
+  TrafficStore,
+  TrafficLogQuery,
+  TrafficLogPage,
+  MAX_LOGS,
+  LOG_TTL_SECONDS,
+  MAX_ALERTS,
+  ALERT_TTL_SECONDS,
+  COUNTER_RESOLUTIONS,
+  bucketStart,
+  QuantityChange,
+  QuantityAdjustment,
+} from './types';
+import { decodeLogCursor, encodeLogCursor, isAfterCursor, LogCursor } from './cursor';
+import { matchesLogFilters, needsPostFilter } from './filters';
+
+// --- Redis Keys ---
+const LOG_PREFIX = 'traffic:log:';
+const LOGS_LIST_KEY = 'traffic:logs';
+const DASHBOARD_COUNTER_PREFIX = 'dashboard:count:';
+const COUNTER_NAMES_KEY = 'dashboard:counters'; // Set of counter names ever written
+const INDEX_PREFIX = 'traffic:idx:'; // Secondary indexes: sorted sets of log keys scored by timestamp
+const TEMP_PREFIX = 'traffic:tmp:';  // Short-lived intersections of several indexes
+const ALERT_PREFIX = 'traffic:alert:';
+const ALERTS_LIST_KEY = 'traffic:alerts'; // Sorted set of alert keys scored by updatedAt
+const RATE_LIMIT_PREFIX = 'ratelimit:';     // Sorted sets of hits scored by timestamp
+const RECORD_PREFIX = 'record:';            // Generic JSON records, e.g. record:session:<id>
+const QUANTITY_PREFIX = 'quantity:';        // Plain numbers, e.g. quantity:stock:<sku>
+
+// Checks every change against its bounds before writing any, so a batch is all-or-nothing.
+// ARGV holds `delta, initial, min, max` per key ('' for no bound).
+// Returns { 1, value... } when applied, or { 0, failed index (0-based), current value }.
+const ADJUST_QUANTITIES_SCRIPT = `
+local values = {}
+for i, key in ipairs(KEYS) do
+  local base = (i - 1) * 4
+  local current = tonumber(redis.call('GET', key) or ARGV[base + 2])
+  local nextValue = current + tonumber(ARGV[base + 1])
+  local min, max = ARGV[base + 3], ARGV[base + 4]
+  if (min ~= '' and nextValue < tonumber(min)) or (max ~= '' and nextValue > tonumber(max)) then
+    return { 0, i - 1, current }
+  end
+  values[i] = nextValue
+end
+for i, key in ipairs(KEYS) do
+  redis.call('SET', key, values[i])
+end
+return { 1, unpack(values) }
+`;
+
+// Compare-and-set for records. ARGV: '1' if the record is expected to be missing, the expected
+// value, the new value ('' to delete) and its TTL in seconds ('' for none). Returns 1 if written.
+const UPDATE_RECORD_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+  if current then return 0 end
+elseif current ~= ARGV[2] then
+  return 0
+end
+if ARGV[3] == '' then
+  redis.call('DEL', KEYS[1])
+elseif ARGV[4] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[3], 'EX', ARGV[4])
+else
+  redis.call('SET', KEYS[1], ARGV[3])
+end
+return 1
+`;
+const MAX_UPDATE_ATTEMPTS = 20;
+
+// Extra rows fetched per page to step over same-millisecond entries already returned
+const CURSOR_TIE_BUFFER = 50;
+// Rows scanned per round trip when filters (status, user agent) need the full log
+const POST_FILTER_BATCH_SIZE = 200;
+
+const indexKey = (field: 'endpoint' | 'method' | 'bot' | 'ip', value: string) =>
+  `${INDEX_PREFIX}${field}:${value}`;
+
+const indexKeysFor = (entry: TrafficLog): string[] => [
+  indexKey('endpoint', entry.endpoint),
+  indexKey('method', entry.method),
+  indexKey('bot', entry.isBot ? '1' : '0'),
+  indexKey('ip', entry.ip),
+];
+
+// e.g. dashboard:count:60s:/api/auth/login|bot:4xx:1714060800
+const counterKey = (name: string, bucketTimestamp: number, resolutionSeconds: number) =>
+  `${DASHBOARD_COUNTER_PREFIX}${resolutionSeconds}s:${name}:${bucketTimestamp}`;
+
+export class RedisTrafficStore implements TrafficStore {
+  async appendLog(entry: TrafficLog, counterNames: string[]): Promise<void> {
+    const score = new Date(entry.timestamp).getTime(); // For sorted sets
+    const logId = `${LOG_PREFIX}${entry.id ?? `${score}-${Math.random().toString(36).substring(2, 10)}`}`;
+    const timestampSeconds = Math.floor(score / 1000);
+
+    const pipeline = redis.pipeline();
+
+    // 1. Increment the counters at every resolution (1s / 1m / 1h rollups), always refreshing expiry
+    for (const resolution of COUNTER_RESOLUTIONS) {
+      const bucketTimestamp = bucketStart(timestampSeconds, resolution.seconds);
+      for (const name of counterNames) {
+        const key = counterKey(name, bucketTimestamp, resolution.seconds);
+        pipeline.incr(key);
+        pipeline.expire(key, resolution.expirySeconds);
+      }
+    }
+    if (counterNames.length > 0) {
+      pipeline.sadd(COUNTER_NAMES_KEY, ...(counterNames as [string, ...string[]]));
+    }
+
+    // 2. Store the full log entry
+    pipeline.set(logId, JSON.stringify(entry), { ex: LOG_TTL_SECONDS });
+    // 3. Add log ID to the main sorted set and each secondary index, trimming by count and age
+    const expiredBefore = score - LOG_TTL_SECONDS * 1000;
+    const indexKeys = indexKeysFor(entry);
+    for (const key of [LOGS_LIST_KEY, ...indexKeys]) {
+      pipeline.zadd(key, { score, member: logId });
+      pipeline.zremrangebyrank(key, 0, -(MAX_LOGS + 1));
+      pipeline.zremrangebyscore(key, 0, expiredBefore);
+    }
+    // 4. Let idle indexes (e.g. one-off IPs) disappear with their logs
+    for (const key of indexKeys) {
+      pipeline.expire(key, LOG_TTL_SECONDS);
+    }
+
+    // Execute all commands in a single round trip
+    await pipeline.exec();
+  }
+
+  async updateLog(id: string, patch: Partial<TrafficLog>): Promise<void> {
+    const key = `${LOG_PREFIX}${id}`;
+    const entry = await redis.get<TrafficLog>(key);
+    if (!entry) return;
+    await redis.set(key, JSON.stringify({ ...entry, ...patch }), { keepTtl: true });
+  }
+
+  async queryLogs(query: TrafficLogQuery): Promise<TrafficLogPage> {
+    const cursor = query.cursor ? decodeLogCursor(query.cursor) : null;
+    const limit = Math.min(query.limit ?? MAX_LOGS, MAX_LOGS);
+    const oldestFirst = query.order === 'oldest';
+    const minScore: number = query.since ? query.since + 1 : 0;
+    const maxScore: number = query.until ?? Number.MAX_SAFE_INTEGER;
+
+    // Pick the sorted set to read: the main list, one index, or an intersection of several
+    const filterKeys: string[] = [];
+    if (query.endpoint) filterKeys.push(indexKey('endpoint', query.endpoint));
+    if (query.method) filterKeys.push(indexKey('method', query.method));
+    if (query.isBot !== undefined) filterKeys.push(indexKey('bot', query.isBot ? '1' : '0'));
+    if (query.ip) filterKeys.push(indexKey('ip', query.ip));
+
+    let sourceKey = LOGS_LIST_KEY;
+    let tempKey: string | null = null;
+    if (filterKeys.length === 1) {
+      sourceKey = filterKeys[0];
+    } else if (filterKeys.length > 1) {
+      tempKey = `${TEMP_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+      sourceKey = tempKey;
+      const pipeline = redis.pipeline();
+      // Scores are timestamps, so keep them as-is rather than summing
+      pipeline.zinterstore(tempKey, filterKeys.length, filterKeys, { aggregate: 'max' });
+      pipeline.expire(tempKey, 30);
+      await pipeline.exec();
+    }
+
+    try {
+      // Filters without an index are checked on the full log, so scan in batches
+      // until the page is full or the history runs out.
+      const postFilter = needsPostFilter(query);
+      const batchSize = postFilter ? Math.max(POST_FILTER_BATCH_SIZE, limit + 1) : limit + 1;
+      const matches: { row: { member: string; score: number }; log: TrafficLog }[] = [];
+      let position: LogCursor | null = cursor;
+      let exhausted = false;
+
+      while (matches.length <= limit && !exhausted) {
+        // Newest (or oldest) first, starting at the position; over-fetch to skip ties already seen
+        const count = batchSize + (position ? CURSOR_TIE_BUFFER : 0);
+        const raw: (string | number)[] = oldestFirst
+          ? await redis.zrange(sourceKey, position ? Math.max(position.t, minScore) : minScore, maxScore, { byScore: true, withScores: true, offset: 0, count })
+          : await redis.zrange(sourceKey, position ? Math.min(position.t, maxScore) : maxScore, minScore, { byScore: true, rev: true, withScores: true, offset: 0, count });
+
+        let rows: { member: string; score: number }[] = [];
+        for (let i = 0; i < raw.length; i += 2) {
+          rows.push({ member: String(raw[i]), score: Number(raw[i + 1]) });
+        }
+        if (position) {
+          const after: LogCursor = position;
+          rows = rows.filter(row => isAfterCursor(row.score, row.member.slice(LOG_PREFIX.length), after, query.order));
+        }
+        rows = rows.slice(0, batchSize);
+        exhausted = rows.length < batchSize;
+        if (rows.length === 0) break;
+
+        // Fetch full log data using MGET (entries past their TTL come back null and are dropped)
+        const logData: (unknown | null)[] = await redis.mget(...rows.map(row => row.member));
+        logData.forEach((data, index) => {
+          if (data === null || typeof data !== 'object') return;
+          const log = data as unknown as TrafficLog;
+          if (!postFilter || matchesLogFilters(log, query)) {
+            matches.push({ row: rows[index], log });
+          }
+        });
+
+        const lastRow = rows[rows.length - 1];
+        position = { t: lastRow.score, id: lastRow.member.slice(LOG_PREFIX.length) };
+      }
+
+      const page = matches.slice(0, limit);
+      const last = page[page.length - 1];
+      const nextCursor = matches.length > limit && last
+        ? encodeLogCursor({ t: last.row.score, id: last.row.member.slice(LOG_PREFIX.length) })
+        : null;
+
+      return { logs: page.map(match => match.log), nextCursor };
+    } finally {
+      if (tempKey) await redis.del(tempKey);
+    }
+  }
+
+  async getCounts(names: string[], bucketTimestamps: number[], resolutionSeconds: number): Promise<Record<string, number[]>> {
+    const result: Record<string, number[]> = {};
+    const allKeys = names.flatMap(name => bucketTimestamps.map(ts => counterKey(name, ts, resolutionSeconds)));
+    if (allKeys.length === 0) {
+      names.forEach(name => { result[name] = []; });
+      return result;
+    }
+
+    // Fetch all counts in one go using MGET
+    const counts = await redis.mget<(number | null)[]>(...allKeys);
+
+    names.forEach((name, nameIndex) => {
+      const offset = nameIndex * bucketTimestamps.length;
+      result[name] = bucketTimestamps.map((_, i) => Number(counts[offset + i] ?? 0));
+    });
+    return result;
+  }
+
+  async getCounterNames(): Promise<string[]> {
+    return redis.smembers(COUNTER_NAMES_KEY);
+  }
+
+  async saveAlert(alert: TrafficAlert): Promise<void> {
+    const key = `${ALERT_PREFIX}${alert.id}`;
+    const score = new Date(alert.updatedAt).getTime();
+
+    const pipeline = redis.pipeline();
+    pipeline.set(key, JSON.stringify(alert), { ex: ALERT_TTL_SECONDS });
+    pipeline.zadd(ALERTS_LIST_KEY, { score, member: key });
+    pipeline.zremrangebyrank(ALERTS_LIST_KEY, 0, -(MAX_ALERTS + 1));
+    pipeline.zremrangebyscore(ALERTS_LIST_KEY, 0, score - ALERT_TTL_SECONDS * 1000);
+    await pipeline.exec();
+  }
+
+  async getAlerts(limit: number): Promise<TrafficAlert[]> {
+    const keys: string[] = await redis.zrange(ALERTS_LIST_KEY, 0, limit - 1, { rev: true });
+    if (keys.length === 0) return [];
+
+    const alerts: (unknown | null)[] = await redis.mget(...keys);
+    return alerts.filter((alert): alert is TrafficAlert => alert !== null && typeof alert === 'object');
+  }
+
+  async recordRateLimitHit(key: string, timestampMs: number, windowSeconds: number): Promise<number[]> {
+    const redisKey = `${RATE_LIMIT_PREFIX}${key}`;
+
+    // Drop hits that slid out of the window, add this one and read back the rest in one round trip
+    const pipeline = redis.pipeline();
+    pipeline.zremrangebyscore(redisKey, 0, timestampMs - windowSeconds * 1000);
+    pipeline.zadd(redisKey, { score: timestampMs, member: `${timestampMs}-${Math.random().toString(36).substring(2, 10)}` });
+    pipeline.zrange(redisKey, 0, -1, { withScores: true });
+    pipeline.expire(redisKey, windowSeconds);
+    const results = await pipeline.exec();
+
+    const raw = results[2] as (string | number)[];
+    const hits: number[] = [];
+    for (let i = 1; i < raw.length; i += 2) {
+      hits.push(Number(raw[i]));
+    }
+    return hits;
+  }
+
+  async getRecord<T>(namespace: string, id: string): Promise<T | null> {
+    // The client parses JSON values on the way out
+    return redis.get<T>(`${RECORD_PREFIX}${namespace}:${id}`);
+  }
+
+  async putRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<void> {
+    const key = `${RECORD_PREFIX}${namespace}:${id}`;
+    if (ttlSeconds) {
+      await redis.set(key, JSON.stringify(value), { ex: ttlSeconds });
+    } else {
+      await redis.set(key, JSON.stringify(value));
+    }
+  }
+
+  async createRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<boolean> {
+    const key = `${RECORD_PREFIX}${namespace}:${id}`;
+    const result = ttlSeconds
+      ? await redis.set(key, JSON.stringify(value), { nx: true, ex: ttlSeconds })
+      : await redis.set(key, JSON.stringify(value), { nx: true });
+    return result === 'OK';
+  }
+
+  async deleteRecord(namespace: string, id: string): Promise<boolean> {
+    return (await redis.del(`${RECORD_PREFIX}${namespace}:${id}`)) > 0;
+  }
+
+  async updateRecord<T>(namespace: string, id: string, update: (current: T | null) => T | null, ttlSeconds?: number): Promise<T | null> {
+    const key = `${RECORD_PREFIX}${namespace}:${id}`;
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      // Records are stored as JSON.stringify output, which survives a parse/stringify round trip
+      const current = await redis.get<T>(key);
+      const next = update(current);
+      const written = await redis.eval<string[], number>(UPDATE_RECORD_SCRIPT, [key], [
+        current === null ? '1' : '0',
+        current === null ? '' : JSON.stringify(current),
+        next === null ? '' : JSON.stringify(next),
+        ttlSeconds ? String(ttlSeconds) : '',
+      ]);
+      if (Number(written) === 1) return next;
+    }
+    throw new Error(`Record ${namespace}:${id} kept changing; gave up after ${MAX_UPDATE_ATTEMPTS} attempts`);
+  }
+
+  async getQuantities(keys: string[]): Promise<(number | null)[]> {
+    if (keys.length === 0) return [];
+    const values: (number | string | null)[] = await redis.mget(...keys.map(key => `${QUANTITY_PREFIX}${key}`));
+    return values.map(value => (value === null ? null : Number(value)));
+  }
+
+  async adjustQuantities(changes: QuantityChange[]): Promise<QuantityAdjustment> {
+    if (changes.length === 0) return { applied: true, values: [] };
+
+    const keys = changes.map(change => `${QUANTITY_PREFIX}${change.key}`);
+    const args = changes.flatMap(change => [
+      String(change.delta),
+      String(change.initial),
+      change.min === undefined ? '' : String(change.min),
+      change.max === undefined ? '' : String(change.max),
+    ]);
+    const [applied, ...rest] = await redis.eval<string[], number[]>(ADJUST_QUANTITIES_SCRIPT, keys, args);
+
+    return applied === 1
+      ? { applied: true, values: rest.map(Number) }
+      : { applied: false, failedIndex: Number(rest[0]), current: Number(rest[1]) };
+  }
+
+  async setQuantity(key: string, value: number): Promise<void> {
+    await redis.set(`${QUANTITY_PREFIX}${key}`, value);
+  }
+}
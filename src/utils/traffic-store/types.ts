@@ -0,0 +1,139 @@
+// src/utils/traffic-store/types.ts
+import { TrafficAlert, TrafficLog } from '@/types';
+import { TrafficLogFilters } from './filters';
+import { LogOrder } from './cursor';
+
+// --- Shared retention settings (all backends honour the same limits) ---
+export const MAX_LOGS = 1000; // Max detailed logs to keep
+export const LOG_TTL_SECONDS = 30 * 60; // Keep full logs for 30 mins
+export const MAX_ALERTS = 200; // Max alerts to keep
+export const ALERT_TTL_SECONDS = 7 * 24 * 60 * 60; // Keep alerts (and their evidence) for 7 days
+
+// Counters are rolled up into several resolutions as they are written, so long windows
+// can be read from a handful of coarse buckets instead of one key per second.
+export interface CounterResolution {
+  seconds: number;       // Bucket width
+  expirySeconds: number; // How long buckets of this width are kept
+}
+
+export const COUNTER_RESOLUTIONS: CounterResolution[] = [
+  { seconds: 1, expirySeconds: 15 * 60 },              // 1s buckets for 15 minutes
+  { seconds: 60, expirySeconds: 48 * 60 * 60 },        // 1m buckets for 48 hours
+  { seconds: 60 * 60, expirySeconds: 30 * 24 * 60 * 60 }, // 1h buckets for 30 days
+];
+
+/**
+ * Start (Unix seconds) of the bucket of width `resolutionSeconds` containing `timestampSeconds`.
+ */
+export const bucketStart = (timestampSeconds: number, resolutionSeconds: number): number =>
+  Math.floor(timestampSeconds / resolutionSeconds) * resolutionSeconds;
+
+export interface TrafficLogQuery extends TrafficLogFilters {
+  limit?: number; // Page size, capped at MAX_LOGS
+  cursor?: string; // Opaque `nextCursor` from the previous page (of the same order)
+  order?: LogOrder; // Default newest first
+}
+
+export interface TrafficLogPage {
+  logs: TrafficLog[];        // In the query's order
+  nextCursor: string | null; // Pass back as `cursor` for the next page; null when exhausted
+}
+
+// One change in an atomic batch of quantity adjustments (e.g. stock levels)
+export interface QuantityChange {
+  key: string;     // e.g. `stock:<sku>`
+  delta: number;
+  initial: number; // Value assumed when the key has never been written
+  min?: number;    // The whole batch is rejected if this change would go below `min`...
+  max?: number;    // ...or above `max`
+}
+
+export type QuantityAdjustment =
+  | { applied: true; values: number[] }                       // New values, in `changes` order
+  | { applied: false; failedIndex: number; current: number }; // First change out of bounds, and its key's value
+
+/**
+ * Storage backend for traffic data.
+ * Implementations: Redis (production), JSON file (local dev), in-memory (tests / ephemeral demos).
+ */
+export interface TrafficStore {
+  /**
+   * Persist a full log entry and increment the counters named in `counterNames`
+   * for the bucket the entry falls in, at every resolution in COUNTER_RESOLUTIONS.
+   */
+  appendLog(entry: TrafficLog, counterNames: string[]): Promise<void>;
+
+  /**
+   * Merge `patch` into a stored log entry (no-op if it has expired). Counters, indexes and the
+   * entry's position in the log are left as they are, so `patch` must not change filtered fields.
+   */
+  updateLog(id: string, patch: Partial<TrafficLog>): Promise<void>;
+
+  /**
+   * Fetch one page of detailed logs matching the query, newest first unless `order` is 'oldest'.
+   * Filters are applied before the limit, so a page is only short when history runs out.
+   */
+  queryLogs(query: TrafficLogQuery): Promise<TrafficLogPage>;
+
+  /**
+   * Read counters at the given resolution. Returns one array per name, aligned with
+   * `bucketTimestamps` (Unix seconds, multiples of `resolutionSeconds`); missing buckets are 0.
+   */
+  getCounts(names: string[], bucketTimestamps: number[], resolutionSeconds: number): Promise<Record<string, number[]>>;
+
+  /**
+   * Names of all counters that have been written (e.g. every endpoint seen so far).
+   */
+  getCounterNames(): Promise<string[]>;
+
+  /**
+   * Insert an alert, or replace the stored alert with the same id.
+   */
+  saveAlert(alert: TrafficAlert): Promise<void>;
+
+  /**
+   * Most recently updated alerts first.
+   */
+  getAlerts(limit: number): Promise<TrafficAlert[]>;
+
+  /**
+   * Record a hit on a sliding-window rate limit and return the timestamps (ms, oldest first)
+   * of every hit on `key` in the last `windowSeconds`, including this one.
+   */
+  recordRateLimitHit(key: string, timestampMs: number, windowSeconds: number): Promise<number[]>;
+
+  /**
+   * Generic JSON records (sessions, ...) grouped by namespace. Records written with
+   * `ttlSeconds` disappear once it elapses; getRecord returns null for missing or expired ids.
+   */
+  getRecord<T>(namespace: string, id: string): Promise<T | null>;
+  putRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<void>;
+
+  /**
+   * putRecord only if `id` is free. Returns false, leaving the existing record alone, if it is taken.
+   */
+  createRecord<T>(namespace: string, id: string, value: T, ttlSeconds?: number): Promise<boolean>;
+
+  /**
+   * Returns true if this call removed the record, so callers racing to consume it
+   * (e.g. a one-time token) can tell which one won.
+   */
+  deleteRecord(namespace: string, id: string): Promise<boolean>;
+
+  /**
+   * Atomically replace a record with `update(current)`; returning null deletes it. If another
+   * writer changes the record in between, `update` runs again on the new value, so it must not
+   * have side effects. Resolves to the value written.
+   */
+  updateRecord<T>(namespace: string, id: string, update: (current: T | null) => T | null, ttlSeconds?: number): Promise<T | null>;
+
+  /**
+   * Numeric quantities (stock levels, purchase counts). `adjustQuantities` applies every change
+   * or none of them, atomically, so concurrent checkouts cannot oversell. Keys should be distinct.
+   */
+  getQuantities(keys: string[]): Promise<(number | null)[]>;
+  adjustQuantities(changes: QuantityChange[]): Promise<QuantityAdjustment>;
+  setQuantity(key: string, value: number): Promise<void>;
+}
+
+export type TrafficStoreKind = 'redis' | 'file' | 'memory';
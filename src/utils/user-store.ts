@@ -0,0 +1,155 @@
+// src/utils/user-store.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { StoredUser, User, UserRole } from '@/types';
+import { getTrafficStore } from './traffic-store';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Users live in the TrafficStore (so Redis in production); the JSON file only seeds it
+export const USER_SEED_FILE_PATH = path.join(process.cwd(), 'src/data/users.json');
+const USER_NAMESPACE = 'user';
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Seed file entries; `password` is plaintext from before hashing (converted by scripts/seed-users.ts)
+export type SeedUser = Omit<User, 'role'> & { role?: UserRole; passwordHash?: string; password?: string; createdAt?: string };
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email.trim());
+
+/**
+ * Why a new password is unacceptable, or null if it is fine.
+ */
+export function passwordProblem(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  return null;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so both paths cost one scrypt
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * The user-facing fields of a stored user.
+ */
+export const toPublicUser = ({ id, name, email, role }: StoredUser): User => ({ id, name, email, role });
+
+/**
+ * Convert a seed file entry, hashing a plaintext password if it still has one.
+ */
+export async function toStoredUser(seed: SeedUser): Promise<StoredUser> {
+  const passwordHash = seed.passwordHash ?? (seed.password ? await hashPassword(seed.password) : null);
+  if (!passwordHash) {
+    throw new Error(`Seed user ${seed.email} has no password`);
+  }
+  return {
+    id: seed.id,
+    name: seed.name,
+    email: seed.email,
+    role: seed.role ?? 'customer',
+    passwordHash,
+    createdAt: seed.createdAt ?? new Date().toISOString(),
+  };
+}
+
+export function readSeedUsers(): SeedUser[] {
+  if (!fs.existsSync(USER_SEED_FILE_PATH)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(USER_SEED_FILE_PATH, 'utf8'));
+  } catch (error) {
+    console.error('Error parsing users.json:', error);
+    return [];
+  }
+}
+
+let seedUsers: SeedUser[] | null = null; // Read once per process
+
+export async function saveUser(user: StoredUser): Promise<void> {
+  await getTrafficStore().putRecord(USER_NAMESPACE, normalizeEmail(user.email), user);
+}
+
+/**
+ * Look up a user by email (case-insensitive). Seed users missing from the store are copied in on first use.
+ */
+export async function getUserByEmail(email: string): Promise<StoredUser | null> {
+  const key = normalizeEmail(email);
+  const stored = await getTrafficStore().getRecord<StoredUser>(USER_NAMESPACE, key);
+  if (stored?.role) return stored;
+
+  seedUsers ??= readSeedUsers();
+  const seed = seedUsers.find(u => normalizeEmail(u.email) === key);
+
+  if (stored) {
+    // Stored before roles existed: take the role from the seed file, keeping the current password
+    const user: StoredUser = { ...stored, role: seed?.role ?? 'customer' };
+    await saveUser(user);
+    return user;
+  }
+  if (!seed) return null;
+
+  const user = await toStoredUser(seed);
+  await saveUser(user);
+  return user;
+}
+
+/**
+ * The user if `email` and `password` match, otherwise null.
+ */
+export async function verifyCredentials(email: string, password: string): Promise<User | null> {
+  const user = await getUserByEmail(email);
+  if (!user) {
+    dummyHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? toPublicUser(user) : null;
+}
+
+/**
+ * Create an account. Returns null if the email is already registered.
+ */
+export async function createUser(details: { name: string; email: string; password: string }): Promise<User | null> {
+  if (await getUserByEmail(details.email)) return null;
+
+  const user: StoredUser = {
+    // Millisecond timestamp plus a random suffix, still within Number.MAX_SAFE_INTEGER
+    id: Date.now() * 1000 + crypto.randomInt(1000),
+    name: details.name.trim(),
+    email: normalizeEmail(details.email),
+    role: 'customer', // Admins only come from the seed file
+    passwordHash: await hashPassword(details.password),
+    createdAt: new Date().toISOString(),
+  };
+  // Only claims the email if it is still free, so a concurrent registration cannot be overwritten
+  if (!(await getTrafficStore().createRecord(USER_NAMESPACE, user.email, user))) return null;
+  return toPublicUser(user);
+}
+
+/**
+ * Replace a user's password. Returns false if there is no such user.
+ */
+export async function updatePassword(email: string, password: string): Promise<boolean> {
+  const user = await getUserByEmail(email);
+  if (!user) return false;
+  await saveUser({ ...user, passwordHash: await hashPassword(password) });
+  return true;
+}